@@ -6,12 +6,49 @@ import type {
 	INodeProperties,
 } from 'n8n-workflow';
 import { createHmac } from 'crypto';
+import { getMasterKeyConnection } from '../nodes/Cosmos/ConnectionString';
+import { connectionPolicyProperties } from '../nodes/Cosmos/ConnectionPolicy';
 
 export class AzureCosmosSdkApi implements ICredentialType {
 	name = 'azureCosmosSdkApi';
 	displayName = 'Azure Cosmos DB SDK API';
 	documentationUrl = 'https://docs.microsoft.com/en-us/azure/cosmos-db/';
 	properties: INodeProperties[] = [
+		{
+			displayName: 'Connection Type',
+			name: 'connectionType',
+			type: 'options',
+			options: [
+				{
+					name: 'Connection String',
+					value: 'connectionString',
+					description: 'Paste the full connection string from the Keys page of the account',
+				},
+				{
+					name: 'Endpoint and Key',
+					value: 'endpointAndKey',
+					description: 'Enter the account endpoint and key separately',
+				},
+			],
+			default: 'endpointAndKey',
+		},
+		{
+			displayName: 'Connection String',
+			name: 'connectionString',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+			placeholder: 'AccountEndpoint=https://your-account.documents.azure.com:443/;AccountKey=...;',
+			description: 'The primary or secondary connection string for your Cosmos DB account',
+			displayOptions: {
+				show: {
+					connectionType: ['connectionString'],
+				},
+			},
+		},
 		{
 			displayName: 'Endpoint',
 			name: 'endpoint',
@@ -20,6 +57,11 @@ export class AzureCosmosSdkApi implements ICredentialType {
 			required: true,
 			placeholder: 'https://your-account.documents.azure.com:443/',
 			description: 'The Cosmos DB account endpoint URL',
+			displayOptions: {
+				show: {
+					connectionType: ['endpointAndKey'],
+				},
+			},
 		},
 		{
 			displayName: 'Access Key',
@@ -31,7 +73,29 @@ export class AzureCosmosSdkApi implements ICredentialType {
 			default: '',
 			required: true,
 			description: 'The primary or secondary key for your Cosmos DB account',
+			displayOptions: {
+				show: {
+					connectionType: ['endpointAndKey'],
+				},
+			},
 		},
+		{
+			displayName: 'Local Emulator',
+			name: 'useLocalEmulator',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether the endpoint is a Cosmos DB emulator on this machine. Its self-signed TLS certificate is then accepted. Only allowed for endpoints on localhost, 127.0.0.1 or [::1].',
+		},
+		{
+			displayName: 'Read-Only Key',
+			name: 'readOnlyKey',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether the key is a read-only key. Nodes using this credential then reject operations that write data or manage resources.',
+		},
+		...connectionPolicyProperties,
 	];
 
 	async authenticate(
@@ -42,7 +106,7 @@ export class AzureCosmosSdkApi implements ICredentialType {
 		const resourceType = 'dbs';
 		const resourceId = '';
 		const date = new Date().toUTCString();
-		const key = credentials.key as string;
+		const { endpoint, key, allowSelfSignedCertificates } = getMasterKeyConnection(credentials);
 
 		// Build the signature string
 		const text = `${verb.toLowerCase()}\n${resourceType.toLowerCase()}\n${resourceId}\n${date.toLowerCase()}\n\n`;
@@ -62,6 +126,14 @@ export class AzureCosmosSdkApi implements ICredentialType {
 			'x-ms-version': '2018-12-31',
 		};
 
+		// The test request reads its base URL from the endpoint field, which connection strings leave empty
+		if (credentials.connectionType === 'connectionString') {
+			requestOptions.baseURL = endpoint;
+		}
+		if (allowSelfSignedCertificates) {
+			requestOptions.skipSslCertificateValidation = true;
+		}
+
 		return requestOptions;
 	}
 
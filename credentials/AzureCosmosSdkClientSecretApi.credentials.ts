@@ -0,0 +1,113 @@
+import type {
+	ICredentialDataDecryptedObject,
+	ICredentialTestRequest,
+	ICredentialType,
+	IHttpRequestHelper,
+	IHttpRequestOptions,
+	Icon,
+	INodeProperties,
+} from 'n8n-workflow';
+import { requestAccessToken } from '../nodes/Cosmos/TokenCredentials';
+import { connectionPolicyProperties } from '../nodes/Cosmos/ConnectionPolicy';
+
+export class AzureCosmosSdkClientSecretApi implements ICredentialType {
+	name = 'azureCosmosSdkClientSecretApi';
+	displayName = 'Azure Cosmos DB SDK (Service Principal Secret) API';
+	documentationUrl = 'https://learn.microsoft.com/en-us/azure/cosmos-db/how-to-setup-rbac';
+	icon: Icon = { light: 'file:../nodes/Cosmos/cosmos.svg', dark: 'file:../nodes/Cosmos/cosmos.dark.svg' };
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Endpoint',
+			name: 'endpoint',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'https://your-account.documents.azure.com:443/',
+			description: 'The Cosmos DB account endpoint URL',
+		},
+		{
+			displayName: 'Tenant ID',
+			name: 'tenantId',
+			type: 'string',
+			default: '',
+			required: true,
+			description: 'The directory (tenant) ID of the app registration',
+		},
+		{
+			displayName: 'Client ID',
+			name: 'clientId',
+			type: 'string',
+			default: '',
+			required: true,
+			description: 'The application (client) ID of the app registration',
+		},
+		{
+			displayName: 'Client Secret',
+			name: 'clientSecret',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+			description: 'A client secret of the app registration',
+		},
+		{
+			displayName: 'Scope',
+			name: 'scope',
+			type: 'string',
+			default: 'https://cosmos.azure.com/.default',
+			description: 'The scope to request tokens for',
+		},
+		{
+			displayName: 'Token URL',
+			name: 'tokenUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'https://login.microsoftonline.com/<tenant-id>/oauth2/v2.0/token',
+			description:
+				'Leave empty to use Microsoft Entra ID. Set it for sovereign clouds.',
+		},
+		...connectionPolicyProperties,
+		{
+			displayName: 'Access Token',
+			name: 'accessToken',
+			type: 'hidden',
+			typeOptions: {
+				expirable: true,
+				password: true,
+			},
+			default: '',
+		},
+	];
+
+	async preAuthentication(this: IHttpRequestHelper, credentials: ICredentialDataDecryptedObject) {
+		const { token } = await requestAccessToken(
+			async (options) => await this.helpers.httpRequest(options),
+			'clientSecret',
+			credentials,
+		);
+		return { accessToken: token };
+	}
+
+	async authenticate(
+		credentials: ICredentialDataDecryptedObject,
+		requestOptions: IHttpRequestOptions,
+	): Promise<IHttpRequestOptions> {
+		requestOptions.headers = {
+			...requestOptions.headers,
+			Authorization: encodeURIComponent(`type=aad&ver=1.0&sig=${credentials.accessToken as string}`),
+			'x-ms-date': new Date().toUTCString(),
+			'x-ms-version': '2018-12-31',
+		};
+		return requestOptions;
+	}
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{$credentials.endpoint}}',
+			url: '/dbs',
+			method: 'GET',
+		},
+	};
+}
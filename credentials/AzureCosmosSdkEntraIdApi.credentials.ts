@@ -3,6 +3,7 @@ import type {
 	ICredentialType,
 	INodeProperties,
 } from 'n8n-workflow';
+import { connectionPolicyProperties } from '../nodes/Cosmos/ConnectionPolicy';
 
 export class AzureCosmosSdkEntraIdApi implements ICredentialType {
 	name = 'azureCosmosSdkEntraIdApi';
@@ -50,6 +51,7 @@ export class AzureCosmosSdkEntraIdApi implements ICredentialType {
 			hint: 'Set based on your workflow duration: Long workflows (30-60 min) → 1800-3600, Quick workflows (5-10 min) → 300-600',
 			noDataExpression: true,
 		},
+		...connectionPolicyProperties,
 	];
 
 	authenticate: IAuthenticateGeneric = {
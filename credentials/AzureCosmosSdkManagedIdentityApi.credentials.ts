@@ -0,0 +1,101 @@
+import type {
+	ICredentialDataDecryptedObject,
+	ICredentialTestRequest,
+	ICredentialType,
+	IHttpRequestHelper,
+	IHttpRequestOptions,
+	Icon,
+	INodeProperties,
+} from 'n8n-workflow';
+import { requestAccessToken } from '../nodes/Cosmos/TokenCredentials';
+import { connectionPolicyProperties } from '../nodes/Cosmos/ConnectionPolicy';
+
+export class AzureCosmosSdkManagedIdentityApi implements ICredentialType {
+	name = 'azureCosmosSdkManagedIdentityApi';
+	displayName = 'Azure Cosmos DB SDK (Managed Identity) API';
+	documentationUrl = 'https://learn.microsoft.com/en-us/azure/cosmos-db/how-to-setup-rbac';
+	icon: Icon = { light: 'file:../nodes/Cosmos/cosmos.svg', dark: 'file:../nodes/Cosmos/cosmos.dark.svg' };
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Endpoint',
+			name: 'endpoint',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: 'https://your-account.documents.azure.com:443/',
+			description: 'The Cosmos DB account endpoint URL',
+		},
+		{
+			displayName: 'Client ID',
+			name: 'clientId',
+			type: 'string',
+			default: '',
+			description: 'The client ID of a user-assigned managed identity. Leave empty to use the system-assigned identity.',
+		},
+		{
+			displayName: 'Scope',
+			name: 'scope',
+			type: 'string',
+			default: 'https://cosmos.azure.com/.default',
+			description: 'The scope to request tokens for',
+		},
+		{
+			displayName: 'Token URL',
+			name: 'tokenUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'http://169.254.169.254/metadata/identity/oauth2/token',
+			description:
+				'Leave empty to use the Azure Instance Metadata Service. For App Service, Functions and Container Apps, enter the value of the IDENTITY_ENDPOINT environment variable.',
+		},
+		{
+			displayName: 'Identity Header',
+			name: 'identityHeader',
+			type: 'string',
+			default: '',
+			description:
+				'For App Service, Functions and Container Apps, the value of the IDENTITY_HEADER environment variable. Leave empty when using the metadata service.',
+		},
+		...connectionPolicyProperties,
+		{
+			displayName: 'Access Token',
+			name: 'accessToken',
+			type: 'hidden',
+			typeOptions: {
+				expirable: true,
+				password: true,
+			},
+			default: '',
+		},
+	];
+
+	async preAuthentication(this: IHttpRequestHelper, credentials: ICredentialDataDecryptedObject) {
+		const { token } = await requestAccessToken(
+			async (options) => await this.helpers.httpRequest(options),
+			'managedIdentity',
+			credentials,
+		);
+		return { accessToken: token };
+	}
+
+	async authenticate(
+		credentials: ICredentialDataDecryptedObject,
+		requestOptions: IHttpRequestOptions,
+	): Promise<IHttpRequestOptions> {
+		requestOptions.headers = {
+			...requestOptions.headers,
+			Authorization: encodeURIComponent(`type=aad&ver=1.0&sig=${credentials.accessToken as string}`),
+			'x-ms-date': new Date().toUTCString(),
+			'x-ms-version': '2018-12-31',
+		};
+		return requestOptions;
+	}
+
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{$credentials.endpoint}}',
+			url: '/dbs',
+			method: 'GET',
+		},
+	};
+}
@@ -1,368 +1,3234 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	ILoadOptionsFunctions,
 	INodeExecutionData,
 	INodeListSearchResult,
-	INodePropertyOptions,
+	INodeProperties,
 	INodeType,
 	INodeTypeDescription,
 } from 'n8n-workflow';
-import { NodeOperationError } from 'n8n-workflow';
-import { CosmosClient } from '@azure/cosmos';
-import type { TokenCredential } from '@azure/cosmos';
-
-// Helper function to check and refresh OAuth2 token proactively
-async function checkAndRefreshToken(
-	context: IExecuteFunctions | ILoadOptionsFunctions,
-	credentialName: string,
-	endpoint: string,
-	oauthTokenData: any,
-	refreshBeforeExpirySeconds: number,
+import { NodeOperationError, sleep } from 'n8n-workflow';
+import type {
+	CosmosClient,
+	JSONValue,
+	BulkOperationResult,
+	OperationInput,
+	PatchOperation,
+	RequestOptions,
+	SqlParameter,
+	SqlQuerySpec,
+} from '@azure/cosmos';
+import {
+	authenticationTypeProperty,
+	cosmosCredentials,
+	getCosmosClient,
+	getRegionNames,
+	invalidateContainerDefinition,
+	listContainers,
+	readContainerDefinition,
+	searchContainers,
+	searchDatabases,
+	toPropertyReference,
+	usesReadOnlyKey,
+} from './GenericFunctions';
+import {
+	mergeContainerDefinition,
+	parseCompositeIndex,
+	parsePathList,
+	validateContainerDefinition,
+} from './ContainerPolicy';
+
+// Operations a read-only key can run, with their display names; all others write data or manage resources
+const READ_OPERATIONS: { [operation: string]: string } = {
+	select: 'Select',
+	vectorSearch: 'Vector Search',
+	hybridSearch: 'Hybrid Search',
+	get: 'Get',
+	listScripts: 'List Scripts',
+	getContainer: 'Get Container',
+	getThroughput: 'Get Throughput',
+};
+
+// Helper function to accumulate request charge and diagnostics across SDK responses
+function collectResponseMetadata(
+	metadata: IDataObject,
+	response: {
+		requestCharge?: number;
+		activityId?: string;
+		statusCode?: number;
+		substatus?: number;
+		queryMetrics?: unknown;
+		indexMetrics?: unknown;
+		headers?: { [name: string]: unknown };
+		diagnostics?: { clientSideRequestStatistics?: { locationEndpointsContacted?: string[] } };
+	},
+): void {
+	metadata.requestCharge = Number(metadata.requestCharge ?? 0) + Number(response.requestCharge ?? 0);
+	metadata.requestCount = Number(metadata.requestCount ?? 0) + 1;
+	metadata.activityId = response.activityId ?? metadata.activityId ?? null;
+	// Feed responses (queries) carry no status code; they only resolve on HTTP 200
+	metadata.statusCode = response.statusCode ?? 200;
+	metadata.substatusCode = response.substatus ?? null;
+	// Passing the session token to a later request lets it read this request's writes
+	const sessionToken = response.headers?.['x-ms-session-token'];
+	if (sessionToken) {
+		metadata.sessionToken = sessionToken as string;
+	}
+	// Regional endpoints are turned into region names when the metadata is output
+	const endpoints = response.diagnostics?.clientSideRequestStatistics?.locationEndpointsContacted ?? [];
+	if (endpoints.length > 0) {
+		metadata.regionEndpoints = [...new Set([...((metadata.regionEndpoints as string[]) ?? []), ...endpoints])];
+	}
+
+	if (response.queryMetrics) {
+		metadata.queryMetrics = parseQueryMetrics(response.queryMetrics);
+	}
+	if (response.indexMetrics) {
+		metadata.indexMetrics = response.indexMetrics as IDataObject;
+	}
+}
+
+// Helper function to turn the x-ms-documentdb-query-metrics header into an object
+function parseQueryMetrics(queryMetrics: unknown): IDataObject {
+	if (typeof queryMetrics !== 'string') {
+		return JSON.parse(JSON.stringify(queryMetrics)) as IDataObject;
+	}
+
+	const metrics: IDataObject = {};
+	for (const pair of queryMetrics.split(';')) {
+		const [key, value] = pair.split('=');
+		if (key && value !== undefined) {
+			const numberValue = Number(value);
+			metrics[key.trim()] = Number.isNaN(numberValue) ? value : numberValue;
+		}
+	}
+	return metrics;
+}
+
+// Helper function to add the collected metadata to the output of one input item
+async function appendResponseMetadata(
+	client: CosmosClient,
+	returnData: INodeExecutionData[],
+	outputStart: number,
+	mode: string,
+	metadata: IDataObject,
+	startTime: number,
+	itemIndex: number,
 ): Promise<void> {
-	// Decode JWT to get actual expiry time (without signature validation)
-	let expiresAt = 0;
+	const { regionEndpoints, ...collected } = metadata;
+	const cosmosMetadata: IDataObject = {
+		...collected,
+		requestCharge: Number(metadata.requestCharge ?? 0),
+		durationMs: Date.now() - startTime,
+	};
+	if (regionEndpoints) {
+		cosmosMetadata.regions = await getRegionNames(client, regionEndpoints as string[]);
+	}
+
+	if (mode === 'summary') {
+		returnData.push({
+			json: { $cosmos: cosmosMetadata },
+			pairedItem: itemIndex,
+		});
+		return;
+	}
+
+	for (let i = outputStart; i < returnData.length; i++) {
+		returnData[i].json.$cosmos = cosmosMetadata;
+	}
+}
+
+// Cosmos DB partial document update also accepts move, which the SDK's PatchOperation type leaves out.
+// The SDK sends the operations to the service unchanged.
+interface MovePatchOperation {
+	op: 'move';
+	from: string;
+	path: string;
+}
+
+// Helper function to build SDK patch operations from the Patch Operations collection
+function buildPatchOperations(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Array<PatchOperation | MovePatchOperation> {
+	const patchOperations = context.getNodeParameter('patchOperations', itemIndex, {}) as {
+		operation?: Array<{ op?: string; path?: string; from?: string; valueType?: string; value?: unknown }>;
+	};
+	const entries = patchOperations.operation ?? [];
+
+	if (entries.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'Add at least one patch operation', { itemIndex });
+	}
+	if (entries.length > 10) {
+		throw new NodeOperationError(context.getNode(),
+			`Cosmos DB allows at most 10 operations per patch, got ${entries.length}`,
+			{ itemIndex }
+		);
+	}
+
+	return entries.map((entry, index) => {
+		const op = entry.op || 'set';
+		const path = (entry.path ?? '').trim();
+		const label = `Patch operation ${index + 1} (${op} ${path})`;
+
+		if (!path.startsWith('/')) {
+			throw new NodeOperationError(context.getNode(), `${label}: path must start with /`, { itemIndex });
+		}
+
+		if (op === 'remove') {
+			return { op, path };
+		}
+
+		if (op === 'move') {
+			const from = (entry.from ?? '').trim();
+			if (!from.startsWith('/')) {
+				throw new NodeOperationError(context.getNode(), `${label}: from path must start with /`, { itemIndex });
+			}
+			return { op, from, path };
+		}
+
+		const valueType = op === 'incr' ? 'number' : entry.valueType || 'string';
+		return { op, path, value: convertTypedValue(context, label, valueType, entry.value, itemIndex) };
+	});
+}
+
+// Helper function to build If-Match request options for optimistic concurrency
+function getIfMatchOptions(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	document: IDataObject,
+): RequestOptions | undefined {
+	if (!(context.getNodeParameter('ifMatch', itemIndex, false) as boolean)) {
+		return undefined;
+	}
+
+	const etagSource = context.getNodeParameter('etagSource', itemIndex, 'document') as string;
+	const etag = etagSource === 'explicit'
+		? (context.getNodeParameter('etag', itemIndex, '') as string)
+		: (document._etag as string | undefined);
+
+	if (!etag) {
+		throw new NodeOperationError(context.getNode(),
+			etagSource === 'explicit'
+				? 'ETag cannot be empty when Only If Unchanged is enabled'
+				: 'No _etag field found in the document. Read the document first or enter the ETag explicitly.',
+			{ itemIndex }
+		);
+	}
+
+	return { accessCondition: { type: 'IfMatch', condition: etag } };
+}
+
+// Helper function to read the Request Options that apply to every request: consistency, session, priority and cache
+function getRequestOptions(context: IExecuteFunctions, itemIndex: number): RequestOptions {
+	const options = context.getNodeParameter('requestOptions', itemIndex, {}) as {
+		consistencyLevel?: string;
+		indexingDirective?: string;
+		maxIntegratedCacheStalenessInMs?: number;
+		priorityLevel?: string;
+		sessionToken?: string;
+	};
+
+	const requestOptions: RequestOptions = {};
+	if (options.consistencyLevel) {
+		requestOptions.consistencyLevel = options.consistencyLevel;
+	}
+	if (options.sessionToken?.trim()) {
+		requestOptions.sessionToken = options.sessionToken.trim();
+	}
+	if (options.indexingDirective) {
+		requestOptions.indexingDirective = options.indexingDirective;
+	}
+	if (options.priorityLevel) {
+		requestOptions.priorityLevel = options.priorityLevel;
+	}
+	if (options.maxIntegratedCacheStalenessInMs !== undefined) {
+		requestOptions.maxIntegratedCacheStalenessInMs = options.maxIntegratedCacheStalenessInMs;
+	}
+
+	return requestOptions;
+}
+
+// Helper function to combine the shared Request Options with If-Match and pre/post-triggers for a write
+function getWriteRequestOptions(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	document?: IDataObject,
+): RequestOptions | undefined {
+	const writeOptions = context.getNodeParameter('requestOptions', itemIndex, {}) as {
+		preTriggers?: string;
+		postTriggers?: string;
+	};
+	const splitIds = (ids?: string) => (ids ?? '').split(',').map((id) => id.trim()).filter((id) => id.length > 0);
+
+	const requestOptions: RequestOptions = {
+		...getRequestOptions(context, itemIndex),
+		...(document ? getIfMatchOptions(context, itemIndex, document) : undefined),
+	};
+	const preTriggers = splitIds(writeOptions.preTriggers);
+	const postTriggers = splitIds(writeOptions.postTriggers);
+	if (preTriggers.length > 0) {
+		requestOptions.preTriggerInclude = preTriggers;
+	}
+	if (postTriggers.length > 0) {
+		requestOptions.postTriggerInclude = postTriggers;
+	}
+
+	return Object.keys(requestOptions).length > 0 ? requestOptions : undefined;
+}
+
+// Helper function to describe a 412 Precondition Failed response
+function preconditionFailedMessage(documentId: string, hasCondition = false): string {
+	return hasCondition
+		? `Document with ID '${documentId}' was changed since it was read (ETag mismatch) or does not match the patch condition. No changes were made.`
+		: `Document with ID '${documentId}' was changed since it was read (ETag mismatch). Read it again and retry.`;
+}
+
+// Helper function to apply the "If Not Found" behavior of the Get operation
+function pushNotFoundResult(
+	context: IExecuteFunctions,
+	returnData: INodeExecutionData[],
+	notFoundBehavior: string,
+	message: string,
+	itemIndex: number,
+): void {
+	if (notFoundBehavior === 'outputEmpty') {
+		returnData.push({
+			json: {},
+			pairedItem: itemIndex,
+		});
+	} else if (notFoundBehavior === 'error') {
+		throw new NodeOperationError(context.getNode(), message, { itemIndex });
+	}
+}
+
+// Helper function to read a container definition through the client's cache; only real reads count in the response metadata
+async function getContainerDefinition(
+	client: CosmosClient,
+	databaseName: string,
+	containerName: string,
+	metadata: IDataObject,
+	refresh = false,
+): Promise<IDataObject> {
+	const { definition, response } = await readContainerDefinition(client, databaseName, containerName, refresh);
+	if (response) {
+		collectResponseMetadata(metadata, response);
+	}
+	return definition;
+}
+
+// Helper function to read every partition key path of a container, e.g. ['/tenantId', '/userId'] for a hierarchical key
+function getPartitionKeyPaths(definition: IDataObject): string[] {
+	const paths = (definition.partitionKey as { paths?: string[] } | undefined)?.paths;
+	return paths && paths.length > 0 ? paths : ['/id'];
+}
+
+// Helper function to read the partition key paths a document is validated against. When the document lacks
+// a cached path, the definition is read again in case the container was recreated with another partition key.
+async function getPartitionKeyPathsForDocument(
+	client: CosmosClient,
+	databaseName: string,
+	containerName: string,
+	document: IDataObject,
+	metadata: IDataObject,
+): Promise<string[]> {
+	const paths = getPartitionKeyPaths(await getContainerDefinition(client, databaseName, containerName, metadata));
+	if (getDocumentPartitionKey(document, paths) !== undefined) {
+		return paths;
+	}
+	return getPartitionKeyPaths(await getContainerDefinition(client, databaseName, containerName, metadata, true));
+}
+
+// Helper function to drop the cached container definition when Cosmos DB rejects a partition key (400, substatus 1001)
+function invalidateOnPartitionKeyMismatch(
+	error: unknown,
+	client: CosmosClient,
+	databaseName: string,
+	containerName: string,
+): void {
+	const cosmosError = error as { code?: number; substatus?: number };
+	if (cosmosError.code === 400 && cosmosError.substatus === 1001) {
+		invalidateContainerDefinition(client, databaseName, containerName);
+	}
+}
+
+// Helper function to turn a partition key path like /address/zip into the field name shown in messages
+function partitionKeyFieldName(path: string): string {
+	return path.replace(/^\//, '').split('/').join('.');
+}
+
+// Helper function to read the partition key of a document, or undefined when one of its fields is missing.
+// Hierarchical (MultiHash) keys are returned as an array with one value per path.
+function getDocumentPartitionKey(document: IDataObject, paths: string[]): JSONValue | undefined {
+	const values: JSONValue[] = [];
+	for (const path of paths) {
+		const value = path
+			.replace(/^\//, '')
+			.split('/')
+			.reduce<unknown>(
+				(current, segment) =>
+					current !== null && typeof current === 'object' ? (current as IDataObject)[segment] : undefined,
+				document,
+			);
+		if (value === undefined) {
+			return undefined;
+		}
+		values.push(value as JSONValue);
+	}
+	return paths.length > 1 ? values : values[0];
+}
+
+// Helper function to read the partition key of a document, failing when one of its fields is missing
+function requireDocumentPartitionKey(
+	context: IExecuteFunctions,
+	document: IDataObject,
+	paths: string[],
+	itemIndex: number,
+): JSONValue {
+	const partitionKey = getDocumentPartitionKey(document, paths);
+	if (partitionKey === undefined) {
+		const missing = paths.filter((path) => getDocumentPartitionKey(document, [path]) === undefined);
+		throw new NodeOperationError(context.getNode(),
+			`Document must include the partition key field '${partitionKeyFieldName(missing[0])}'. Add this field to your document.`,
+			{ itemIndex }
+		);
+	}
+	return partitionKey;
+}
+
+// Helper function to read the Partition Key Value parameter as the type chosen in Partition Key Type
+function getPartitionKeyValue(context: IExecuteFunctions, itemIndex: number): JSONValue {
+	const partitionKeyType = context.getNodeParameter('partitionKeyType', itemIndex, 'string') as string;
+
+	// Cosmos DB addresses documents without a partition key field with an empty object
+	if (partitionKeyType === 'none') {
+		return {};
+	}
+	if (partitionKeyType === 'null') {
+		return null;
+	}
+
+	const value = String(context.getNodeParameter('partitionKeyValue', itemIndex, '')).trim();
+
+	if (partitionKeyType === 'number') {
+		const number = Number(value);
+		if (value === '' || isNaN(number)) {
+			throw new NodeOperationError(context.getNode(), `Partition Key Value '${value}' is not a number`, {
+				itemIndex,
+			});
+		}
+		return number;
+	}
+
+	if (partitionKeyType === 'boolean') {
+		if (value.toLowerCase() !== 'true' && value.toLowerCase() !== 'false') {
+			throw new NodeOperationError(context.getNode(), `Partition Key Value '${value}' must be true or false`, {
+				itemIndex,
+			});
+		}
+		return value.toLowerCase() === 'true';
+	}
+
+	if (partitionKeyType === 'jsonArray') {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(value);
+		} catch (error) {
+			throw new NodeOperationError(context.getNode(),
+				`Partition Key Value is not valid JSON: ${(error as Error).message}`,
+				{ itemIndex }
+			);
+		}
+		const isPrimitive = (entry: unknown) => entry === null || ['string', 'number', 'boolean'].includes(typeof entry);
+		if (!Array.isArray(parsed) || parsed.length === 0 || parsed.length > 3 || !parsed.every(isPrimitive)) {
+			throw new NodeOperationError(context.getNode(),
+				'Partition Key Value must be a JSON array of one to three strings, numbers, booleans or nulls, e.g. ["contoso", "user-1"]',
+				{ itemIndex }
+			);
+		}
+		return parsed as JSONValue[];
+	}
+
+	return value;
+}
+
+// Helper function to show a partition key value in messages
+function formatPartitionKey(partitionKey: JSONValue | undefined): string {
+	if (partitionKey !== null && typeof partitionKey === 'object' && !Array.isArray(partitionKey)) {
+		return '(none)';
+	}
+	return typeof partitionKey === 'string' ? partitionKey : JSON.stringify(partitionKey);
+}
+
+// Helper function to retry a request throttled by Cosmos DB (429), waiting as long as its retry-after header asks
+async function withThrottleRetry<T>(
+	request: () => Promise<T>,
+	maxRetries: number,
+	onRetry: () => void,
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await request();
+		} catch (error) {
+			const cosmosError = error as { code?: number; retryAfterInMs?: number; headers?: IDataObject };
+			if (cosmosError.code !== 429 || attempt >= maxRetries) {
+				// Callers read the status code of the original error, so it is passed on unchanged
+				// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+				throw error;
+			}
+			onRetry();
+			await sleep(Number(cosmosError.retryAfterInMs ?? cosmosError.headers?.['x-ms-retry-after-ms'] ?? 1000));
+		}
+	}
+}
+
+// Delete by Query reports at most this many failed documents individually
+const MAX_REPORTED_DELETE_ERRORS = 100;
+
+// Helper function to delete the documents matched by the Delete Query, one query page at a time
+async function deleteDocumentsByQuery(
+	context: IExecuteFunctions,
+	client: CosmosClient,
+	databaseName: string,
+	containerName: string,
+	itemIndex: number,
+	responseMetadata: IDataObject,
+): Promise<IDataObject> {
+	const deleteQuery = context.getNodeParameter('deleteQuery', itemIndex) as string;
+	const options = context.getNodeParameter('deleteOptions', itemIndex, {}) as {
+		pageSize?: number;
+		concurrency?: number;
+		maxThrottleRetries?: number;
+		returnDeletedIds?: boolean;
+	};
+	const pageSize = options.pageSize || 100;
+	const concurrency = options.concurrency || 10;
+	const maxThrottleRetries = options.maxThrottleRetries ?? 5;
+	const returnDeletedIds = options.returnDeletedIds ?? true;
+	const useIfMatch = context.getNodeParameter('ifMatch', itemIndex, false) as boolean;
+	const triggerOptions = getWriteRequestOptions(context, itemIndex);
+	const container = client.database(databaseName).container(containerName);
+
+	// Get container properties to determine the partition key paths
+	let partitionKeyPaths = getPartitionKeyPaths(
+		await getContainerDefinition(client, databaseName, containerName, responseMetadata),
+	);
+	let partitionKeyFields = partitionKeyPaths.map(partitionKeyFieldName);
+
+	// Nested fields lose their nesting when projected, so only top-level keys can be selected one by one
+	const selectHint = partitionKeyFields.some((field) => field.includes('.'))
+		? 'Use SELECT * FROM c WHERE ...'
+		: `Use: SELECT * FROM c WHERE ... or SELECT c.id, ${partitionKeyFields.map((field) => `c.${field}`).join(', ')} FROM c WHERE ...`;
+	const etagHint = 'Only If Unchanged compares each document with its _etag. Use SELECT * FROM c WHERE ... or add c._etag to the SELECT.';
+
+	let totalQueried = 0;
+	let deletedCount = 0;
+	let failedCount = 0;
+	let pageCount = 0;
+	let throttledRetries = 0;
+	const deletedIds: string[] = [];
+	const errors: Array<{ id: string; error: string }> = [];
+	const recordError = (id: string, error: string) => {
+		failedCount++;
+		if (errors.length < MAX_REPORTED_DELETE_ERRORS) {
+			errors.push({ id, error });
+		}
+	};
+	const countRetry = () => throttledRetries++;
+
+	const deleteDocument = async (resource: IDataObject) => {
+		const id = resource.id as string;
+		if (!id) {
+			recordError('unknown', 'Document missing id field');
+			return;
+		}
+
+		// Get the partition key value from the document
+		const partitionKeyValue = getDocumentPartitionKey(resource, partitionKeyPaths);
+		if (partitionKeyValue === undefined) {
+			recordError(id, `Missing partition key field(s) '${partitionKeyFields.join("', '")}' in query results. ${selectHint}`);
+			return;
+		}
+		if (useIfMatch && !resource._etag) {
+			recordError(id, `Missing _etag field in query results. ${etagHint}`);
+			return;
+		}
+
+		try {
+			const requestOptions = useIfMatch
+				? { ...triggerOptions, accessCondition: { type: 'IfMatch', condition: resource._etag as string } }
+				: triggerOptions;
+			const response = await withThrottleRetry<{ requestCharge?: number; activityId?: string }>(
+				() => container.item(id, partitionKeyValue).delete(requestOptions),
+				maxThrottleRetries,
+				countRetry,
+			);
+			collectResponseMetadata(responseMetadata, response);
+			deletedCount++;
+			if (returnDeletedIds) {
+				deletedIds.push(id);
+			}
+		} catch (error) {
+			const err = error as Error & { code?: number };
+			recordError(id, err.code === 412 ? preconditionFailedMessage(id) : err.message || String(error));
+		}
+	};
+
+	// Stream the query one page at a time so large purges never hold every match in memory
+	const iterator = container.items.query(buildQuerySpec(context, deleteQuery, itemIndex), {
+		...getRequestOptions(context, itemIndex),
+		maxItemCount: pageSize,
+	});
+	while (iterator.hasMoreResults()) {
+		const page = await withThrottleRetry<{ resources?: IDataObject[]; requestCharge?: number }>(
+			() => iterator.fetchNext(),
+			maxThrottleRetries,
+			countRetry,
+		);
+		collectResponseMetadata(responseMetadata, page);
+		const resources = page.resources ?? [];
+		if (resources.length === 0) {
+			continue;
+		}
+
+		// Check if query includes every partition key field, re-reading a possibly stale container definition first
+		if (totalQueried === 0 && getDocumentPartitionKey(resources[0], partitionKeyPaths) === undefined) {
+			partitionKeyPaths = await getPartitionKeyPathsForDocument(
+				client,
+				databaseName,
+				containerName,
+				resources[0],
+				responseMetadata,
+			);
+			partitionKeyFields = partitionKeyPaths.map(partitionKeyFieldName);
+		}
+		if (totalQueried === 0 && getDocumentPartitionKey(resources[0], partitionKeyPaths) === undefined) {
+			throw new NodeOperationError(context.getNode(),
+				`Query must include the partition key field(s) '${partitionKeyFields.join("', '")}'. ${selectHint}`,
+				{ itemIndex }
+			);
+		}
+		if (totalQueried === 0 && useIfMatch && !resources[0]._etag) {
+			throw new NodeOperationError(context.getNode(), `Query must include the _etag field. ${etagHint}`, {
+				itemIndex,
+			});
+		}
+		pageCount++;
+		totalQueried += resources.length;
+
+		// Delete the page with up to `concurrency` requests in flight
+		let next = 0;
+		const worker = async () => {
+			while (next < resources.length) {
+				await deleteDocument(resources[next++]);
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(concurrency, resources.length) }, worker));
+
+		context.logger.debug(
+			`Delete by query: ${deletedCount} deleted, ${failedCount} failed of ${totalQueried} queried after ${pageCount} page(s)`,
+		);
+	}
+
+	// Handle case where no documents match the query
+	if (totalQueried === 0) {
+		return {
+			success: true,
+			deletedCount: 0,
+			totalQueried: 0,
+			deletedIds: [],
+			message: 'No documents matched the query',
+		};
+	}
+
+	return {
+		success: failedCount === 0,
+		deletedCount,
+		failedCount,
+		totalQueried,
+		pageCount,
+		throttledRetries,
+		deletedIds: returnDeletedIds ? deletedIds : undefined,
+		errors: errors.length > 0 ? errors : undefined,
+		message: `Successfully deleted ${deletedCount} of ${totalQueried} document(s)`,
+	};
+}
+
+// Helper function to read the documents of all input items with one Read Many request
+async function readManyDocuments(
+	context: IExecuteFunctions,
+	client: CosmosClient,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[] = [];
+	const databaseName = context.getNodeParameter('databaseName', 0, '', { extractValue: true }) as string;
+	const containerName = context.getNodeParameter('containerName', 0, '', { extractValue: true }) as string;
+	const notFoundBehavior = context.getNodeParameter('notFoundBehavior', 0, 'error') as string;
+	const responseMetadataMode = context.getNodeParameter('responseMetadata', 0, 'none') as string;
+	const responseMetadata: IDataObject = { operation: 'get' };
+	const startTime = Date.now();
+
+	const requests = items.map((_, itemIndex) => ({
+		id: context.getNodeParameter('documentId', itemIndex) as string,
+		partitionKey: getPartitionKeyValue(context, itemIndex),
+	}));
+
+	let resources: IDataObject[] = [];
+	let partitionKeyPaths = ['/id'];
 	try {
-		const accessToken = oauthTokenData.access_token as string;
-		// JWT format: header.payload.signature
-		const parts = accessToken.split('.');
-		if (parts.length === 3) {
-			// Decode the payload (base64url)
-			const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
-			// JWT exp is in seconds since epoch
-			expiresAt = payload.exp ? payload.exp * 1000 : 0;
-			context.logger.debug(`JWT decoded: expires at ${new Date(expiresAt).toISOString()}`);
+		const container = client.database(databaseName).container(containerName);
+
+		// The partition key paths are needed to match returned documents to input items
+		partitionKeyPaths = getPartitionKeyPaths(
+			await getContainerDefinition(client, databaseName, containerName, responseMetadata),
+		);
+
+		const response = await container.items.readMany(requests, getRequestOptions(context, 0));
+		collectResponseMetadata(responseMetadata, response);
+		resources = response.resources || [];
+	} catch (error) {
+		if (!context.continueOnFail()) {
+			throw new NodeOperationError(context.getNode(), error as Error);
+		}
+		return items.map((_, itemIndex) => ({
+			json: { error: (error as Error).message },
+			pairedItem: itemIndex,
+		}));
+	}
+
+	const documentKey = (id: unknown, partitionKey: unknown) => JSON.stringify([id, partitionKey]);
+	const documentsByKey = new Map<string, IDataObject>();
+	for (const resource of resources) {
+		documentsByKey.set(documentKey(resource.id, getDocumentPartitionKey(resource, partitionKeyPaths) ?? {}), resource);
+	}
+
+	for (let itemIndex = 0; itemIndex < requests.length; itemIndex++) {
+		const { id, partitionKey } = requests[itemIndex];
+		const resource = documentsByKey.get(documentKey(id, partitionKey));
+
+		try {
+			if (resource) {
+				returnData.push({
+					json: resource,
+					pairedItem: itemIndex,
+				});
+			} else {
+				pushNotFoundResult(
+					context,
+					returnData,
+					notFoundBehavior,
+					`Document with ID '${id}' and partition key '${formatPartitionKey(partitionKey)}' not found`,
+					itemIndex,
+				);
+			}
+		} catch (error) {
+			if (!context.continueOnFail()) {
+				throw new NodeOperationError(context.getNode(), error as Error, { itemIndex });
+			}
+			returnData.push({
+				json: { error: (error as Error).message },
+				pairedItem: itemIndex,
+			});
+		}
+	}
+
+	if (responseMetadataMode !== 'none') {
+		await appendResponseMetadata(client, returnData, 0, responseMetadataMode, responseMetadata, startTime, 0);
+	}
+
+	return returnData;
+}
+
+// Helper function to turn a failed bulk operation into a readable message
+function bulkErrorMessage(operation: string, statusCode: number | undefined, documentId: unknown, fallback?: string): string {
+	if (statusCode === 409 && operation === 'insert') {
+		return `Document with ID '${documentId}' already exists. Use Create or Update operation to update existing documents.`;
+	}
+	if (statusCode === 404) {
+		return `Document with ID '${documentId}' not found`;
+	}
+	if (statusCode === 412) {
+		return preconditionFailedMessage(String(documentId));
+	}
+	if (statusCode === 429) {
+		return `Request rate too large for document with ID '${documentId}'. Lower the bulk concurrency or increase throughput.`;
+	}
+	return fallback || `Bulk operation failed for document with ID '${documentId}' with status code ${statusCode}`;
+}
+
+// Helper function to send the insert, upsert or delete of all input items through the bulk API
+async function executeBulkOperations(
+	context: IExecuteFunctions,
+	client: CosmosClient,
+	items: INodeExecutionData[],
+	operation: string,
+): Promise<INodeExecutionData[]> {
+	const databaseName = context.getNodeParameter('databaseName', 0, '', { extractValue: true }) as string;
+	const containerName = context.getNodeParameter('containerName', 0, '', { extractValue: true }) as string;
+	const batchSize = context.getNodeParameter('bulkBatchSize', 0, 100) as number;
+	const concurrency = context.getNodeParameter('bulkConcurrency', 0, 5) as number;
+	const responseMetadataMode = context.getNodeParameter('responseMetadata', 0, 'none') as string;
+	const responseMetadata: IDataObject = { operation, executionMode: 'bulk' };
+	const startTime = Date.now();
+
+	const container = client.database(databaseName).container(containerName);
+	const requestOptions = getRequestOptions(context, 0);
+
+	// The bulk API has no trigger options, so triggers would silently not run
+	for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+		const writeOptions = context.getNodeParameter('requestOptions', itemIndex, {}) as IDataObject;
+		if (writeOptions.preTriggers || writeOptions.postTriggers) {
+			throw new NodeOperationError(context.getNode(), 'Pre-Triggers and Post-Triggers are not supported in Bulk mode', {
+				itemIndex,
+				description: 'Remove the triggers from Request Options or set Execution Mode to Per Item.',
+			});
 		}
+	}
+
+	// Get container properties once to determine the partition key paths
+	let partitionKeyPaths = ['/id'];
+	let partitionKeyPathsRefreshed = false;
+	try {
+		partitionKeyPaths = getPartitionKeyPaths(
+			await getContainerDefinition(client, databaseName, containerName, responseMetadata),
+		);
 	} catch (error) {
-		// Fallback to oauthTokenData.expires_at if JWT decode fails
-		expiresAt = oauthTokenData.expires_at ? new Date(oauthTokenData.expires_at).getTime() : 0;
-		context.logger.debug('JWT decode failed, using oauthTokenData.expires_at');
+		throw new NodeOperationError(context.getNode(), error as Error);
+	}
+
+	// Build one bulk operation per input item; invalid items fail on their own
+	const results: Array<{ json?: IDataObject; error?: string; documentId?: unknown; statusCode?: number }> = items.map(
+		() => ({}),
+	);
+	const pending: Array<{ itemIndex: number; documentId: unknown; input: OperationInput }> = [];
+
+	for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+		try {
+			if (operation === 'delete') {
+				const documentId = context.getNodeParameter('documentId', itemIndex) as string;
+				const partitionKeyValue = getPartitionKeyValue(context, itemIndex);
+				const ifMatch = getIfMatchOptions(context, itemIndex, items[itemIndex].json)?.accessCondition?.condition;
+				pending.push({
+					itemIndex,
+					documentId,
+					input: { operationType: 'Delete', id: documentId, partitionKey: partitionKeyValue, ifMatch },
+				});
+				continue;
+			}
+
+			const documentJson = context.getNodeParameter('document', itemIndex) as string;
+			const document = typeof documentJson === 'string' ? JSON.parse(documentJson) : documentJson;
+
+			if (!document.id) {
+				throw new NodeOperationError(context.getNode(), 'Document must include an ID field', { itemIndex });
+			}
+			// The first document missing a partition key field re-reads a possibly stale container definition
+			if (!partitionKeyPathsRefreshed && getDocumentPartitionKey(document, partitionKeyPaths) === undefined) {
+				partitionKeyPathsRefreshed = true;
+				partitionKeyPaths = getPartitionKeyPaths(
+					await getContainerDefinition(client, databaseName, containerName, responseMetadata, true),
+				);
+			}
+			const partitionKey = requireDocumentPartitionKey(context, document, partitionKeyPaths, itemIndex);
+
+			const ifMatch = operation === 'upsert'
+				? getIfMatchOptions(context, itemIndex, document)?.accessCondition?.condition
+				: undefined;
+			pending.push({
+				itemIndex,
+				documentId: document.id,
+				input: {
+					operationType: operation === 'insert' ? 'Create' : 'Upsert',
+					partitionKey,
+					resourceBody: document,
+					ifMatch,
+				},
+			});
+		} catch (error) {
+			results[itemIndex].error = (error as Error).message;
+		}
+	}
+
+	const chunks: Array<typeof pending> = [];
+	for (let i = 0; i < pending.length; i += batchSize) {
+		chunks.push(pending.slice(i, i + batchSize));
+	}
+
+	// Run up to `concurrency` bulk calls at a time; results come back in input order
+	let nextChunk = 0;
+	const worker = async () => {
+		while (nextChunk < chunks.length) {
+			const chunk = chunks[nextChunk++];
+			let chunkResults: BulkOperationResult[];
+			try {
+				chunkResults = await container.items.executeBulkOperations(
+					chunk.map((entry) => entry.input),
+					requestOptions,
+				);
+			} catch (error) {
+				for (const entry of chunk) {
+					results[entry.itemIndex].error = (error as Error).message;
+					results[entry.itemIndex].documentId = entry.documentId;
+				}
+				continue;
+			}
+
+			chunk.forEach((entry, index) => {
+				const result = chunkResults[index];
+				const statusCode = result?.response?.statusCode ?? result?.error?.code;
+				collectResponseMetadata(responseMetadata, {
+					requestCharge: result?.response?.requestCharge,
+					activityId: result?.response?.activityId,
+				});
+
+				if (!result || result.error || (statusCode !== undefined && statusCode >= 400)) {
+					results[entry.itemIndex].error = bulkErrorMessage(
+						operation,
+						statusCode,
+						entry.documentId,
+						result?.error?.message,
+					);
+					results[entry.itemIndex].documentId = entry.documentId;
+					results[entry.itemIndex].statusCode = statusCode;
+				} else if (operation === 'delete') {
+					results[entry.itemIndex].json = {
+						success: true,
+						deletedCount: 1,
+						deletedId: entry.documentId as string,
+						partitionKeyValue: entry.input.partitionKey as IDataObject[string],
+						message: `Successfully deleted document ${entry.documentId}`,
+					};
+				} else {
+					results[entry.itemIndex].json = (result.response?.resourceBody ?? entry.input.resourceBody) as IDataObject;
+				}
+			});
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+	const returnData: INodeExecutionData[] = [];
+	const failedItems = results
+		.map((result, itemIndex) => ({ ...result, itemIndex }))
+		.filter((result) => result.error !== undefined);
+
+	// Failing the node would hide the operations that were already committed, so it only fails when none were
+	if (failedItems.length === items.length && !context.continueOnFail()) {
+		const [firstFailure] = failedItems;
+		throw new NodeOperationError(context.getNode(),
+			`All ${items.length} bulk operation(s) failed. First failure: ${firstFailure.error}`,
+			{ itemIndex: firstFailure.itemIndex }
+		);
 	}
 
-	// Check if token needs refresh based on buffer
-	const now = Date.now();
-	const timeUntilExpiry = (expiresAt - now) / 1000; // seconds
+	results.forEach((result, itemIndex) => {
+		returnData.push({
+			json: result.error !== undefined
+				? {
+					success: false,
+					error: result.error,
+					...(result.documentId !== undefined ? { documentId: result.documentId as string } : {}),
+					...(result.statusCode !== undefined ? { statusCode: result.statusCode } : {}),
+				}
+				: result.json ?? {},
+			pairedItem: itemIndex,
+		});
+	});
+
+	if (responseMetadataMode !== 'none') {
+		await appendResponseMetadata(client, returnData, 0, responseMetadataMode, responseMetadata, startTime, 0);
+	}
+
+	return returnData;
+}
+
+// Helper function to validate one transactional batch operation and convert it to SDK input
+function normalizeBatchOperation(
+	context: IExecuteFunctions,
+	rawOperation: IDataObject,
+	label: string,
+	itemIndex: number,
+): OperationInput {
+	const operationTypes: Record<string, OperationInput['operationType']> = {
+		create: 'Create',
+		upsert: 'Upsert',
+		replace: 'Replace',
+		patch: 'Patch',
+		delete: 'Delete',
+		read: 'Read',
+	};
+	const operationType = operationTypes[String(rawOperation?.operationType ?? '').toLowerCase()];
+	if (!operationType) {
+		throw new NodeOperationError(context.getNode(),
+			`${label}: operationType must be one of Create, Upsert, Replace, Patch, Delete or Read`,
+			{ itemIndex }
+		);
+	}
+
+	const resourceBody = rawOperation.resourceBody as IDataObject | undefined;
+	const id = (rawOperation.id ?? resourceBody?.id) as string | undefined;
+	if (!id) {
+		throw new NodeOperationError(context.getNode(), `${label}: an ID (or resourceBody.id) is required`, {
+			itemIndex,
+		});
+	}
+
+	const input: OperationInput = { operationType, id };
+	if (rawOperation.ifMatch) {
+		input.ifMatch = rawOperation.ifMatch as string;
+	}
+
+	if (operationType === 'Create' || operationType === 'Upsert' || operationType === 'Replace') {
+		if (!resourceBody || typeof resourceBody !== 'object') {
+			throw new NodeOperationError(context.getNode(), `${label}: ${operationType} requires a resourceBody`, {
+				itemIndex,
+			});
+		}
+		input.resourceBody = { ...resourceBody, id } as OperationInput['resourceBody'];
+	} else if (operationType === 'Patch') {
+		const patchBody = (rawOperation.operations ? rawOperation : resourceBody ?? {}) as IDataObject;
+		if (!Array.isArray(patchBody.operations) || patchBody.operations.length === 0) {
+			throw new NodeOperationError(context.getNode(), `${label}: Patch requires an operations array`, {
+				itemIndex,
+			});
+		}
+		input.resourceBody = {
+			operations: patchBody.operations,
+			...(patchBody.condition ? { condition: patchBody.condition } : {}),
+		} as OperationInput['resourceBody'];
+	}
 
-	if (timeUntilExpiry > 0 && timeUntilExpiry < refreshBeforeExpirySeconds) {
-		// Token will expire soon, trigger refresh by making a lightweight API call
-		context.logger.info(`Token expires in ${Math.floor(timeUntilExpiry / 60)} minutes, refreshing...`);
+	return input;
+}
+
+// Helper function to run a transactional batch and report each operation's status
+async function runTransactionalBatch(
+	context: IExecuteFunctions,
+	container: {
+		items: {
+			batch(
+				operations: OperationInput[],
+				partitionKey: JSONValue,
+				options?: RequestOptions,
+			): Promise<{
+				headers?: IDataObject;
+				result?: unknown[];
+				code?: number;
+				substatus?: number;
+				diagnostics?: { clientSideRequestStatistics?: { locationEndpointsContacted?: string[] } };
+			}>;
+		};
+	},
+	operations: OperationInput[],
+	partitionKey: JSONValue,
+	metadata: IDataObject,
+	itemIndex: number,
+): Promise<{ results: IDataObject[]; failedIndex?: number }> {
+	if (operations.length > 100) {
+		throw new NodeOperationError(context.getNode(),
+			`A transactional batch can contain at most 100 operations, got ${operations.length} for partition key '${formatPartitionKey(partitionKey)}'`,
+			{ itemIndex }
+		);
+	}
+
+	const response = await container.items.batch(operations, partitionKey, getRequestOptions(context, itemIndex));
+	const headers = (response.headers ?? {}) as IDataObject;
+	collectResponseMetadata(metadata, {
+		requestCharge: Number(headers['x-ms-request-charge'] ?? 0),
+		activityId: headers['x-ms-activity-id'] as string | undefined,
+		statusCode: response.code,
+		substatus: response.substatus,
+		headers,
+		diagnostics: response.diagnostics,
+	});
+
+	const operationResponses = (response.result ?? []) as Array<{
+		statusCode: number;
+		requestCharge?: number;
+		eTag?: string;
+		resourceBody?: IDataObject;
+	}>;
+	const results: IDataObject[] = operations.map((operation, index) => ({
+		index,
+		operationType: operation.operationType,
+		id: operation.id ?? null,
+		statusCode: operationResponses[index]?.statusCode ?? response.code ?? null,
+		requestCharge: operationResponses[index]?.requestCharge ?? 0,
+		eTag: operationResponses[index]?.eTag ?? null,
+		resourceBody: operationResponses[index]?.resourceBody ?? null,
+	}));
+
+	// When one operation fails, the others report 424 (Failed Dependency) and everything is rolled back
+	const failed = (result: IDataObject) => Number(result.statusCode) >= 400;
+	let failedIndex = results.findIndex((result) => failed(result) && result.statusCode !== 424);
+	if (failedIndex === -1) {
+		failedIndex = results.findIndex(failed);
+	}
+
+	return { results, failedIndex: failedIndex === -1 ? undefined : failedIndex };
+}
+
+// Helper function to describe which operation made a transactional batch roll back
+function batchRollbackMessage(results: IDataObject[], failedIndex: number, itemIndexes?: number[]): string {
+	const failed = results[failedIndex];
+	const inputItem = itemIndexes ? ` (input item ${itemIndexes[failedIndex]})` : '';
+	return `Transactional batch rolled back: operation ${failedIndex}${inputItem} (${failed.operationType} '${failed.id}') failed with status code ${failed.statusCode}. No changes were made.`;
+}
+
+// Helper function to run transactional batches built from input items, one per partition key value
+async function executeBatchFromInputItems(
+	context: IExecuteFunctions,
+	client: CosmosClient,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const databaseName = context.getNodeParameter('databaseName', 0, '', { extractValue: true }) as string;
+	const containerName = context.getNodeParameter('containerName', 0, '', { extractValue: true }) as string;
+	const responseMetadataMode = context.getNodeParameter('responseMetadata', 0, 'none') as string;
+	const responseMetadata: IDataObject = { operation: 'transactionalBatch' };
+	const startTime = Date.now();
+	const container = client.database(databaseName).container(containerName);
+
+	// Group the input items by partition key value, keeping their order
+	const groups = new Map<string, { partitionKey: JSONValue; itemIndexes: number[]; operations: OperationInput[] }>();
+	const results: Array<{ json?: IDataObject; error?: string; partitionKey?: JSONValue; statusCode?: number }> =
+		items.map(() => ({}));
+	let committedGroups = 0;
+
+	for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
 		try {
-			// Use Cosmos DB REST API to list databases (lightweight operation)
-			await context.helpers.httpRequestWithAuthentication.call(
+			const partitionKey = getPartitionKeyValue(context, itemIndex);
+			const operationType = context.getNodeParameter('batchOperationType', itemIndex) as string;
+			const json = items[itemIndex].json;
+			const operation = normalizeBatchOperation(
 				context,
-				credentialName,
-				{
-					method: 'GET',
-					url: `${endpoint.replace(/\/$/, '')}/dbs`,
-					headers: {
-						'x-ms-version': '2018-12-31',
+				{ ...json, operationType, id: json.id, resourceBody: json },
+				`Item ${itemIndex}`,
+				itemIndex,
+			);
+
+			const groupKey = JSON.stringify(partitionKey);
+			const group = groups.get(groupKey) ?? { partitionKey, itemIndexes: [], operations: [] };
+			group.itemIndexes.push(itemIndex);
+			group.operations.push(operation);
+			groups.set(groupKey, group);
+		} catch (error) {
+			results[itemIndex].error = (error as Error).message;
+		}
+	}
+
+	for (const group of groups.values()) {
+		try {
+			const { results: batchResults, failedIndex } = await runTransactionalBatch(
+				context,
+				container,
+				group.operations,
+				group.partitionKey,
+				responseMetadata,
+				group.itemIndexes[0],
+			);
+
+			if (failedIndex === undefined) {
+				committedGroups++;
+			}
+			group.itemIndexes.forEach((itemIndex, index) => {
+				if (failedIndex !== undefined) {
+					results[itemIndex].error = batchRollbackMessage(batchResults, failedIndex, group.itemIndexes);
+					results[itemIndex].partitionKey = group.partitionKey;
+					results[itemIndex].statusCode = batchResults[index].statusCode as number;
+				} else {
+					results[itemIndex].json = {
+						success: true,
+						partitionKey: group.partitionKey as IDataObject[string],
+						...batchResults[index],
+					};
+				}
+			});
+		} catch (error) {
+			for (const itemIndex of group.itemIndexes) {
+				results[itemIndex].error = (error as Error).message;
+				results[itemIndex].partitionKey = group.partitionKey;
+			}
+		}
+	}
+
+	// Failing the node would hide the batches that were already committed, so it only fails when none were
+	const firstFailure = results.findIndex((result) => result.error !== undefined);
+	if (firstFailure !== -1 && committedGroups === 0 && !context.continueOnFail()) {
+		throw new NodeOperationError(context.getNode(), results[firstFailure].error as string, {
+			itemIndex: firstFailure,
+		});
+	}
+
+	const returnData: INodeExecutionData[] = results.map((result, itemIndex) => ({
+		json: result.error !== undefined
+			? {
+				success: false,
+				error: result.error,
+				...(result.partitionKey !== undefined ? { partitionKey: result.partitionKey as IDataObject[string] } : {}),
+				...(result.statusCode !== undefined ? { statusCode: result.statusCode } : {}),
+			}
+			: result.json ?? {},
+		pairedItem: itemIndex,
+	}));
+
+	if (responseMetadataMode !== 'none') {
+		await appendResponseMetadata(client, returnData, 0, responseMetadataMode, responseMetadata, startTime, 0);
+	}
+
+	return returnData;
+}
+
+// The parts of the SDK script accessors the script operations use
+interface ScriptResponse {
+	resource?: IDataObject;
+	requestCharge?: number;
+	activityId?: string;
+}
+interface ScriptCollection {
+	readAll(): { fetchAll(): Promise<ScriptResponse & { resources: IDataObject[] }> };
+	create(definition: IDataObject): Promise<ScriptResponse>;
+}
+interface ScriptItem {
+	delete(): Promise<ScriptResponse>;
+	replace(definition: IDataObject): Promise<ScriptResponse>;
+}
+
+// Helper function to get the SDK collection and item accessors for a script type
+function getScriptsApi(
+	container: {
+		scripts: {
+			storedProcedures: ScriptCollection;
+			storedProcedure(id: string): ScriptItem;
+			userDefinedFunctions: ScriptCollection;
+			userDefinedFunction(id: string): ScriptItem;
+			triggers: ScriptCollection;
+			trigger(id: string): ScriptItem;
+		};
+	},
+	scriptType: string,
+): { label: string; collection: ScriptCollection; item: (id: string) => ScriptItem } {
+	const scripts = container.scripts;
+	if (scriptType === 'userDefinedFunction') {
+		return {
+			label: 'User-defined function',
+			collection: scripts.userDefinedFunctions,
+			item: (id: string) => scripts.userDefinedFunction(id),
+		};
+	}
+	if (scriptType === 'trigger') {
+		return {
+			label: 'Trigger',
+			collection: scripts.triggers,
+			item: (id: string) => scripts.trigger(id),
+		};
+	}
+	return {
+		label: 'Stored procedure',
+		collection: scripts.storedProcedures,
+		item: (id: string) => scripts.storedProcedure(id),
+	};
+}
+
+// Helper function to strip vector/embedding fields from a document
+function removeVectorFields(resource: IDataObject, vectorFieldNames?: string): IDataObject {
+	const vectorFields = (vectorFieldNames || 'vector,embedding,embeddings')
+		.split(',')
+		.map(f => f.trim())
+		.filter(f => f.length > 0);
+
+	const processedResource = { ...resource };
+	for (const field of vectorFields) {
+		delete processedResource[field];
+	}
+	return processedResource;
+}
+
+// Query parameter bindings shared by the Select and Delete-by-Query operations
+const queryParametersProperty: INodeProperties = {
+	displayName: 'Query Parameters',
+	name: 'queryParameters',
+	type: 'fixedCollection',
+	typeOptions: {
+		multipleValues: true,
+	},
+	placeholder: 'Add Parameter',
+	default: {},
+	description: 'Values to bind to @name placeholders in the query. Binding values instead of building the query text avoids SQL injection and quoting issues.',
+	options: [
+		{
+			displayName: 'Parameter',
+			name: 'parameter',
+			values: [
+				{
+					displayName: 'Name',
+					name: 'name',
+					type: 'string',
+					default: '',
+					placeholder: '@status',
+					description: 'The placeholder name used in the query. The leading @ is optional.',
+				},
+				{
+					displayName: 'Type',
+					name: 'type',
+					type: 'options',
+					options: [
+						{ name: 'Array', value: 'array' },
+						{ name: 'Boolean', value: 'boolean' },
+						{ name: 'Null', value: 'null' },
+						{ name: 'Number', value: 'number' },
+						{ name: 'Object', value: 'object' },
+						{ name: 'String', value: 'string' },
+					],
+					default: 'string',
+					description: 'How the value is converted before it is sent to Cosmos DB',
+				},
+				{
+					displayName: 'Value',
+					name: 'value',
+					type: 'string',
+					default: '',
+					placeholder: 'active',
+					description: 'The value to bind. Arrays and objects must be valid JSON.',
+					displayOptions: {
+						hide: {
+							type: ['null'],
+						},
+					},
+				},
+			],
+		},
+	],
+};
+
+// Throughput mode shared by the create and Replace Throughput operations
+const throughputModeProperty: INodeProperties = {
+	displayName: 'Throughput Mode',
+	name: 'throughputMode',
+	type: 'options',
+	options: [
+		{
+			name: 'Autoscale',
+			value: 'autoscale',
+			description: 'Scale automatically between 10% and 100% of a maximum RU/s',
+		},
+		{
+			name: 'Manual',
+			value: 'manual',
+			description: 'Provision a fixed number of RU/s',
+		},
+	],
+	default: 'manual',
+};
+
+// Autoscale maximum shared by the create and Replace Throughput operations
+const autoscaleMaxThroughputProperty: INodeProperties = {
+	displayName: 'Autoscale Max Throughput (RU/s)',
+	name: 'autoscaleMaxThroughput',
+	type: 'number',
+	typeOptions: {
+		minValue: 1000,
+		numberStepSize: 1000,
+	},
+	default: 1000,
+	description: 'The highest throughput autoscale may scale to, in steps of 1000 RU/s. It scales down to 10% of this value.',
+};
+
+// Languages Cosmos DB full-text search can tokenize and stem
+const fullTextLanguageOptions = [
+	{ name: 'English (US)', value: 'en-US' },
+	{ name: 'French', value: 'fr-FR' },
+	{ name: 'German', value: 'de-DE' },
+	{ name: 'Italian', value: 'it-IT' },
+	{ name: 'Portuguese (Brazil)', value: 'pt-BR' },
+	{ name: 'Portuguese (Portugal)', value: 'pt-PT' },
+	{ name: 'Spanish', value: 'es-ES' },
+];
+
+// Helper function to convert a user-entered value to its declared type
+function convertTypedValue(
+	context: IExecuteFunctions,
+	label: string,
+	type: string,
+	value: unknown,
+	itemIndex: number,
+): JSONValue {
+	if (type === 'null') {
+		return null;
+	}
+
+	if (type === 'string') {
+		return typeof value === 'string' ? value : JSON.stringify(value);
+	}
+
+	if (type === 'number') {
+		const numberValue = typeof value === 'number' ? value : Number(String(value).trim());
+		if (String(value).trim() === '' || Number.isNaN(numberValue)) {
+			throw new NodeOperationError(context.getNode(), `${label} is not a valid number`, {
+				itemIndex,
+			});
+		}
+		return numberValue;
+	}
+
+	if (type === 'boolean') {
+		if (typeof value === 'boolean') {
+			return value;
+		}
+		const normalized = String(value).trim().toLowerCase();
+		if (normalized !== 'true' && normalized !== 'false') {
+			throw new NodeOperationError(context.getNode(), `${label} must be true or false`, {
+				itemIndex,
+			});
+		}
+		return normalized === 'true';
+	}
+
+	// Array and object values are accepted as JSON text or as values from an expression
+	let parsed = value;
+	if (typeof value === 'string') {
+		try {
+			parsed = JSON.parse(value);
+		} catch {
+			throw new NodeOperationError(context.getNode(), `${label} is not valid JSON`, {
+				itemIndex,
+			});
+		}
+	}
+
+	const isArray = Array.isArray(parsed);
+	if (type === 'array' ? !isArray : isArray || parsed === null || typeof parsed !== 'object') {
+		throw new NodeOperationError(context.getNode(), `${label} must be a JSON ${type}`, {
+			itemIndex,
+		});
+	}
+	return parsed as JSONValue;
+}
+
+// Helper function to build a parameterized query from the Query Parameters collection
+function buildQuerySpec(
+	context: IExecuteFunctions,
+	query: string,
+	itemIndex: number,
+	boundParameters: SqlParameter[] = [],
+): SqlQuerySpec {
+	const queryParameters = context.getNodeParameter('queryParameters', itemIndex, {}) as {
+		parameter?: Array<{ name?: string; type?: string; value?: unknown }>;
+	};
+
+	// Parameters bound by the operation itself (e.g. the query vector) come first
+	const parameters: SqlParameter[] = [...boundParameters];
+	for (const parameter of queryParameters.parameter ?? []) {
+		const rawName = (parameter.name ?? '').trim();
+		if (!rawName) {
+			throw new NodeOperationError(context.getNode(), 'Query parameter names cannot be empty', {
+				itemIndex,
+			});
+		}
+
+		const name = rawName.startsWith('@') ? rawName : `@${rawName}`;
+		if (parameters.some((p) => p.name === name)) {
+			throw new NodeOperationError(context.getNode(), `Query parameter '${name}' is defined more than once`, {
+				itemIndex,
+			});
+		}
+
+		parameters.push({
+			name,
+			value: convertTypedValue(
+				context,
+				`Query parameter '${name}'`,
+				parameter.type || 'string',
+				parameter.value,
+				itemIndex,
+			),
+		});
+	}
+
+	// Every @name in the query text (outside string literals) must have a bound value
+	const queryWithoutLiterals = query.replace(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g, "''");
+	const referencedNames = new Set(queryWithoutLiterals.match(/@[A-Za-z_][A-Za-z0-9_]*/g) ?? []);
+	const unboundNames = [...referencedNames].filter((name) => !parameters.some((p) => p.name === name));
+	if (unboundNames.length > 0) {
+		throw new NodeOperationError(context.getNode(),
+			`Query references parameter(s) without a value: ${unboundNames.join(', ')}. Add them under Query Parameters.`,
+			{ itemIndex }
+		);
+	}
+
+	return { query, parameters };
+}
+
+// Helper function to read and validate a query embedding given as an array or JSON array string
+function parseQueryVector(context: IExecuteFunctions, value: unknown, itemIndex: number): number[] {
+	let vector = value;
+	if (typeof vector === 'string') {
+		try {
+			vector = JSON.parse(vector);
+		} catch {
+			throw new NodeOperationError(context.getNode(), 'Query Vector must be a JSON array of numbers', {
+				itemIndex,
+			});
+		}
+	}
+
+	if (
+		!Array.isArray(vector) ||
+		vector.length === 0 ||
+		!vector.every((entry) => typeof entry === 'number' && Number.isFinite(entry))
+	) {
+		throw new NodeOperationError(context.getNode(), 'Query Vector must be a non-empty array of numbers', {
+			itemIndex,
+		});
+	}
+
+	return vector as number[];
+}
+
+// Helper function to pick the vector or full-text path to search, defaulting to the container's policy
+async function resolvePolicyPath(
+	context: IExecuteFunctions,
+	client: CosmosClient,
+	databaseName: string,
+	containerName: string,
+	path: string,
+	policy: 'vector' | 'fullText',
+	metadata: IDataObject,
+	itemIndex: number,
+): Promise<string> {
+	if (path.trim()) {
+		return path.trim().startsWith('/') ? path.trim() : `/${path.trim()}`;
+	}
+
+	const resource = await getContainerDefinition(client, databaseName, containerName, metadata);
+	const policyPaths = (
+		policy === 'vector'
+			? (resource.vectorEmbeddingPolicy as IDataObject | undefined)?.vectorEmbeddings
+			: (resource.fullTextPolicy as IDataObject | undefined)?.fullTextPaths
+	) as Array<{ path: string }> | undefined ?? [];
+	const label = policy === 'vector' ? 'Vector Path' : 'Text Path';
+	const policyName = policy === 'vector' ? 'vector embedding policy' : 'full-text policy';
+
+	if (policyPaths.length === 0) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`The container has no ${policyName}. Set ${label} to the field to search.`,
+			{ itemIndex },
+		);
+	}
+	if (policyPaths.length > 1) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`The container's ${policyName} has several paths (${policyPaths.map((p) => p.path).join(', ')}). Set ${label} to choose one.`,
+			{ itemIndex },
+		);
+	}
+
+	return policyPaths[0].path;
+}
+
+// Helper function to summarize a throughput offer for the Get and Replace Throughput output
+function formatThroughputOffer(offer: IDataObject, headers: IDataObject): IDataObject {
+	const content = (offer.content ?? {}) as IDataObject;
+	const autoscaleSettings = content.offerAutopilotSettings as IDataObject | undefined;
+	const minimumThroughput = headers['x-ms-cosmos-min-throughput'];
+
+	return {
+		throughputMode: autoscaleSettings ? 'autoscale' : 'manual',
+		throughput: content.offerThroughput ?? null,
+		autoscaleMaxThroughput: autoscaleSettings?.maxThroughput ?? null,
+		minimumThroughput: minimumThroughput !== undefined ? Number(minimumThroughput) : null,
+		// Scaling beyond the current physical partitions finishes asynchronously
+		replacePending: String(headers['x-ms-offer-replace-pending'] ?? 'false') === 'true',
+		offerId: offer.id,
+	};
+}
+
+// Helper function to read the Autoscale Max Throughput parameter, which Cosmos DB only accepts in steps of 1000 RU/s
+function getAutoscaleMaxThroughput(context: IExecuteFunctions, itemIndex: number): number {
+	const maxThroughput = context.getNodeParameter('autoscaleMaxThroughput', itemIndex) as number;
+	if (!(maxThroughput >= 1000) || maxThroughput % 1000 !== 0) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Autoscale Max Throughput must be a multiple of 1000 RU/s and at least 1000, got ${maxThroughput}`,
+			{ itemIndex },
+		);
+	}
+	return maxThroughput;
+}
+
+// Helper function to build the offer content for Replace Throughput, keeping the offer's current mode
+function getReplacedOfferContent(
+	context: IExecuteFunctions,
+	offer: IDataObject,
+	target: string,
+	throughputScope: string,
+	itemIndex: number,
+): IDataObject {
+	const content = { ...((offer.content ?? {}) as IDataObject) };
+	const autoscaleSettings = content.offerAutopilotSettings as IDataObject | undefined;
+	const throughputMode = context.getNodeParameter('throughputMode', itemIndex, 'manual') as string;
+	const currentMode = autoscaleSettings ? 'autoscale' : 'manual';
+
+	if (throughputMode !== currentMode) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`${target} uses ${currentMode} throughput, so its ${throughputMode} throughput cannot be set`,
+			{
+				itemIndex,
+				description: `Switch it to ${throughputMode} throughput in the Azure portal or with 'az cosmosdb sql ${throughputScope} throughput migrate' first.`,
+			},
+		);
+	}
+
+	if (throughputMode === 'autoscale') {
+		const maxThroughput = getAutoscaleMaxThroughput(context, itemIndex);
+		// Autoscale offers are sized by their maximum; the current throughput follows from it
+		delete content.offerThroughput;
+		content.offerAutopilotSettings = { ...autoscaleSettings, maxThroughput };
+		return content;
+	}
+
+	const throughput = context.getNodeParameter('throughput', itemIndex) as number;
+	if (!(throughput >= 400) || throughput % 100 !== 0) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Throughput must be a multiple of 100 RU/s and at least 400, got ${throughput}`,
+			{ itemIndex },
+		);
+	}
+	content.offerThroughput = throughput;
+	return content;
+}
+
+// Helper function to add the Container Policies collection of Create Container to a container definition
+function applyContainerPolicies(
+	context: IExecuteFunctions,
+	containerDef: IDataObject,
+	indexingPolicy: IDataObject,
+	databaseName: string,
+	itemIndex: number,
+): void {
+	const policies = context.getNodeParameter('containerPolicies', itemIndex, {}) as {
+		compositeIndexes?: { index?: Array<{ fields?: string }> };
+		computedProperties?: { property?: Array<{ name?: string; query?: string }> };
+		conflictResolution?: {
+			policy?: { mode?: string; conflictResolutionPath?: string; conflictResolutionProcedure?: string };
+		};
+		fullTextDefaultLanguage?: string;
+		fullTextPathLanguages?: { path?: Array<{ path?: string; language?: string }> };
+		spatialIndexes?: { index?: Array<{ path?: string; types?: string[] }> };
+		uniqueKeys?: { key?: Array<{ paths?: string }> };
+		vectorEmbeddings?: {
+			embedding?: Array<{
+				path?: string;
+				dataType?: string;
+				dimensions?: number;
+				distanceFunction?: string;
+				indexType?: string;
+			}>;
+		};
+	};
+
+	const embeddings = policies.vectorEmbeddings?.embedding ?? [];
+	if (embeddings.length > 0) {
+		const vectorEmbeddingPolicy = (containerDef.vectorEmbeddingPolicy ?? { vectorEmbeddings: [] }) as IDataObject;
+		const vectorEmbeddings = vectorEmbeddingPolicy.vectorEmbeddings as IDataObject[];
+		const vectorIndexes = (indexingPolicy.vectorIndexes ?? []) as IDataObject[];
+		const excludedPaths = indexingPolicy.excludedPaths as IDataObject[];
+		for (const embedding of embeddings) {
+			const path = embedding.path ?? '';
+			vectorEmbeddings.push({
+				path,
+				dataType: embedding.dataType || 'float32',
+				dimensions: embedding.dimensions,
+				distanceFunction: embedding.distanceFunction || 'cosine',
+			});
+			if (embedding.indexType !== 'none') {
+				vectorIndexes.push({ path, type: embedding.indexType || 'quantizedFlat' });
+			}
+			// Exclude vector path from regular indexing to save RU/s
+			excludedPaths.push({ path: `${path}/*` });
+		}
+		containerDef.vectorEmbeddingPolicy = vectorEmbeddingPolicy;
+		if (vectorIndexes.length > 0) {
+			indexingPolicy.vectorIndexes = vectorIndexes;
+		}
+	}
+
+	const pathLanguages = policies.fullTextPathLanguages?.path ?? [];
+	if (pathLanguages.length > 0) {
+		const fullTextPolicy = (containerDef.fullTextPolicy ?? {
+			defaultLanguage: policies.fullTextDefaultLanguage || 'en-US',
+			fullTextPaths: [],
+		}) as IDataObject;
+		const fullTextPaths = fullTextPolicy.fullTextPaths as IDataObject[];
+		const fullTextIndexes = (indexingPolicy.fullTextIndexes ?? []) as IDataObject[];
+		for (const { path = '', language = 'en-US' } of pathLanguages) {
+			const existing = fullTextPaths.find((entry) => entry.path === path);
+			if (existing) {
+				existing.language = language;
+			} else {
+				fullTextPaths.push({ path, language });
+				fullTextIndexes.push({ path });
+			}
+		}
+		containerDef.fullTextPolicy = fullTextPolicy;
+		indexingPolicy.fullTextIndexes = fullTextIndexes;
+	}
+
+	const compositeIndexes = policies.compositeIndexes?.index ?? [];
+	if (compositeIndexes.length > 0) {
+		indexingPolicy.compositeIndexes = compositeIndexes.map((entry) => parseCompositeIndex(entry.fields ?? ''));
+	}
+
+	const spatialIndexes = policies.spatialIndexes?.index ?? [];
+	if (spatialIndexes.length > 0) {
+		indexingPolicy.spatialIndexes = spatialIndexes.map((entry) => {
+			const path = (entry.path ?? '').trim();
+			return { path: path.endsWith('/*') ? path : `${path.replace(/\/$/, '')}/*`, types: entry.types ?? [] };
+		});
+	}
+
+	const uniqueKeys = policies.uniqueKeys?.key ?? [];
+	if (uniqueKeys.length > 0) {
+		containerDef.uniqueKeyPolicy = {
+			uniqueKeys: uniqueKeys.map((entry) => ({ paths: parsePathList(entry.paths) })),
+		};
+	}
+
+	const computedProperties = policies.computedProperties?.property ?? [];
+	if (computedProperties.length > 0) {
+		containerDef.computedProperties = computedProperties.map((entry) => ({
+			name: (entry.name ?? '').trim(),
+			query: entry.query ?? '',
+		}));
+	}
+
+	const conflictResolution = policies.conflictResolution?.policy;
+	if (conflictResolution) {
+		const procedure = (conflictResolution.conflictResolutionProcedure ?? '').trim();
+		containerDef.conflictResolutionPolicy =
+			conflictResolution.mode === 'Custom'
+				? {
+						mode: 'Custom',
+						// The service expects the procedure's full resource link
+						...(procedure
+							? {
+									conflictResolutionProcedure: `dbs/${databaseName}/colls/${containerDef.id as string}/sprocs/${procedure}`,
+								}
+							: {}),
+					}
+				: { mode: 'LastWriterWins', conflictResolutionPath: conflictResolution.conflictResolutionPath || '/_ts' };
+	}
+}
+
+// Update Container checks the re-indexing progress this often while waiting for it
+const INDEX_PROGRESS_POLL_INTERVAL_MS = 5000;
+
+// Helper function to read a container with its quota information, which carries the re-indexing progress
+async function readContainerWithProgress(container: {
+	read(options: RequestOptions): Promise<{ resource?: unknown; headers?: IDataObject; requestCharge?: number }>;
+}): Promise<{
+	response: { headers?: IDataObject; requestCharge?: number };
+	definition: IDataObject;
+	indexTransformationProgress: number | null;
+}> {
+	const response = await container.read({ populateQuotaInfo: true });
+	const progress = response.headers?.['x-ms-documentdb-collection-index-transformation-progress'];
+	return {
+		response,
+		definition: (response.resource ?? {}) as IDataObject,
+		indexTransformationProgress: progress !== undefined ? Number(progress) : null,
+	};
+}
+
+// Helper function to summarize a container definition for the Get and Update Container output
+function formatContainerDefinition(definition: IDataObject, indexTransformationProgress: number | null): IDataObject {
+	const partitionKeyPaths = getPartitionKeyPaths(definition);
+
+	return {
+		partitionKey: partitionKeyPaths.length > 1 ? partitionKeyPaths : partitionKeyPaths[0],
+		partitionKeyKind: (definition.partitionKey as IDataObject | undefined)?.kind ?? 'Hash',
+		indexingPolicy: definition.indexingPolicy ?? null,
+		// Time to live is off when the container has no default
+		defaultTtl: definition.defaultTtl ?? null,
+		computedProperties: definition.computedProperties ?? [],
+		vectorEmbeddingPolicy: definition.vectorEmbeddingPolicy ?? null,
+		fullTextPolicy: definition.fullTextPolicy ?? null,
+		uniqueKeyPolicy: definition.uniqueKeyPolicy ?? null,
+		conflictResolutionPolicy: definition.conflictResolutionPolicy ?? null,
+		// Percentage of documents indexed with the current indexing policy; 100 once re-indexing is done
+		indexTransformationProgress,
+	};
+}
+
+// Helper function to apply the Update Fields of Update Container to the current container definition
+function getUpdatedContainerDefinition(
+	context: IExecuteFunctions,
+	definition: IDataObject,
+	itemIndex: number,
+): IDataObject {
+	const fields = context.getNodeParameter('containerUpdateFields', itemIndex, {}) as IDataObject;
+	if (Object.keys(fields).length === 0) {
+		throw new NodeOperationError(context.getNode(), 'Add at least one setting to change under Update Fields', {
+			itemIndex,
+		});
+	}
+
+	// Policies that are not updated are sent back unchanged, as Cosmos DB replaces the whole definition
+	const updated: IDataObject = { ...definition };
+
+	if (fields.indexingPolicy !== undefined) {
+		updated.indexingPolicy = convertTypedValue(
+			context,
+			'Indexing Policy (JSON)',
+			'object',
+			fields.indexingPolicy,
+			itemIndex,
+		) as IDataObject;
+	}
+
+	if (fields.defaultTtl !== undefined) {
+		const defaultTtl = Number(fields.defaultTtl);
+		if (!Number.isInteger(defaultTtl) || defaultTtl < -1) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Default Time to Live must be -1, 0 or a positive number of seconds, got ${fields.defaultTtl as string}`,
+				{ itemIndex },
+			);
+		}
+		if (defaultTtl === 0) {
+			delete updated.defaultTtl;
+		} else {
+			updated.defaultTtl = defaultTtl;
+		}
+	}
+
+	if (fields.computedProperties !== undefined) {
+		updated.computedProperties = convertTypedValue(
+			context,
+			'Computed Properties (JSON)',
+			'array',
+			fields.computedProperties,
+			itemIndex,
+		) as IDataObject[];
+	}
+
+	validateContainerDefinition(updated);
+	return updated;
+}
+
+// Helper function to split search text into full-text search term literals
+function toSearchTermLiterals(context: IExecuteFunctions, searchText: string, itemIndex: number): string[] {
+	const terms = searchText
+		.split(/\s+/)
+		.map((term) => term.trim())
+		.filter((term) => term.length > 0);
+
+	if (terms.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'Search Terms cannot be empty', {
+			itemIndex,
+		});
+	}
+
+	// JSON string escaping is also valid Cosmos DB SQL string literal syntax
+	return terms.map((term) => JSON.stringify(term));
+}
+
+// Helper function to build the SELECT list for the comma-separated Fields parameter
+function buildProjection(context: IExecuteFunctions, fields: string, itemIndex: number): string {
+	const fieldList = fields
+		.split(',')
+		.map((field) => field.trim())
+		.filter((field) => field.length > 0);
+
+	// Whole documents are wrapped so the score can be added next to them
+	if (fieldList.length === 0) {
+		return 'c AS document';
+	}
+
+	for (const field of fieldList) {
+		if (!/^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*$/.test(field)) {
+			throw new NodeOperationError(context.getNode(), `Invalid field '${field}'. Use names like title or metadata.author.`, {
+				itemIndex,
+			});
+		}
+	}
+
+	return fieldList.map((field) => `c.${field}`).join(', ');
+}
+
+// Helper function to flatten a ranked search result and drop vector fields if requested
+function formatSearchResult(
+	resource: IDataObject,
+	options: { excludeVectorFields?: boolean; vectorFieldNames?: string },
+	vectorPath?: string,
+): IDataObject {
+	const { document, ...rest } = resource;
+	const result = document && typeof document === 'object' ? { ...(document as IDataObject), ...rest } : resource;
+
+	if (!options.excludeVectorFields) {
+		return result;
+	}
+
+	// The searched vector field is always treated as a vector field
+	const searchedField = vectorPath?.replace(/^\//, '').split('/')[0];
+	const vectorFieldNames = [options.vectorFieldNames || 'vector,embedding,embeddings', searchedField]
+		.filter(Boolean)
+		.join(',');
+	return removeVectorFields(result, vectorFieldNames);
+}
+
+export class AzureCosmosSdk implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Azure Cosmos DB (SDK)',
+		name: 'azureCosmosSdk',
+		icon: 'fa:cloud',
+		iconColor: 'blue',
+		group: ['transform'],
+		version: 1,
+		description: 'Interact with Azure Cosmos DB using the official SDK (supports vector search and hybrid queries)',
+		defaults: {
+			name: 'Azure Cosmos DB (SDK)',
+		},
+		inputs: ['main'],
+		outputs: ['main'],
+		usableAsTool: true,
+		credentials: cosmosCredentials,
+		properties: [
+			authenticationTypeProperty,
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Select',
+						value: 'select',
+						description: 'Query documents using SQL',
+						action: 'Query documents',
+					},
+					{
+						name: 'Vector Search',
+						value: 'vectorSearch',
+						description: 'Find the documents most similar to an embedding',
+						action: 'Vector search documents',
+					},
+					{
+						name: 'Hybrid Search',
+						value: 'hybridSearch',
+						description: 'Rank documents by full-text relevance combined with vector similarity',
+						action: 'Hybrid search documents',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Read a single document by ID and partition key (point read)',
+						action: 'Get a document',
+					},
+					{
+						name: 'Insert',
+						value: 'insert',
+						description: 'Insert a new document (fails if ID exists)',
+						action: 'Insert a document',
+					},
+					{
+						name: 'Create or Update',
+						value: 'upsert',
+						description: 'Create a new record, or update the current one if it already exists (upsert)',
+						action: 'Upsert a document',
+					},
+					{
+						name: 'Replace',
+						value: 'replace',
+						description: 'Replace an existing document, optionally only if it has not changed since it was read',
+						action: 'Replace a document',
+					},
+					{
+						name: 'Patch',
+						value: 'patch',
+						description: 'Partially update a document with patch operations',
+						action: 'Patch a document',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete documents matching a SQL query',
+						action: 'Delete documents',
+					},
+					{
+						name: 'Transactional Batch',
+						value: 'transactionalBatch',
+						description: 'Run several operations in one partition as an all-or-nothing transaction',
+						action: 'Run a transactional batch',
+					},
+					{
+						name: 'Execute Stored Procedure',
+						value: 'executeStoredProcedure',
+						description: 'Run a stored procedure in a partition and return its result',
+						action: 'Execute a stored procedure',
+					},
+					{
+						name: 'Create Script',
+						value: 'createScript',
+						description: 'Create a stored procedure, user-defined function or trigger',
+						action: 'Create a script',
+					},
+					{
+						name: 'Replace Script',
+						value: 'replaceScript',
+						description: 'Replace the body of a stored procedure, user-defined function or trigger',
+						action: 'Replace a script',
+					},
+					{
+						name: 'List Scripts',
+						value: 'listScripts',
+						description: 'List the stored procedures, user-defined functions or triggers of a container',
+						action: 'List scripts',
+					},
+					{
+						name: 'Delete Script',
+						value: 'deleteScript',
+						description: 'Delete a stored procedure, user-defined function or trigger',
+						action: 'Delete a script',
+					},
+					{
+						name: 'Create Database',
+						value: 'createDatabase',
+						description: 'Create a new Cosmos DB database',
+						action: 'Create a database',
+					},
+					{
+						name: 'Create Container',
+						value: 'createContainer',
+						description: 'Create a new container with partition key, vector index, and full-text index support',
+						action: 'Create a container',
+					},
+					{
+						name: 'Delete Database',
+						value: 'deleteDatabase',
+						description: 'Delete a database and all its containers',
+						action: 'Delete a database',
+					},
+					{
+						name: 'Delete Container',
+						value: 'deleteContainer',
+						description: 'Delete a container from a database',
+						action: 'Delete a container',
+					},
+					{
+						name: 'Get Container',
+						value: 'getContainer',
+						description: 'Read the partition key, policies and re-indexing progress of a container',
+						action: 'Get a container',
+					},
+					{
+						name: 'Update Container',
+						value: 'updateContainer',
+						description: 'Replace the indexing policy, time to live or computed properties of a container',
+						action: 'Update a container',
+					},
+					{
+						name: 'Get Throughput',
+						value: 'getThroughput',
+						description: 'Read the provisioned or autoscale throughput of a database or container',
+						action: 'Get throughput',
+					},
+					{
+						name: 'Replace Throughput',
+						value: 'replaceThroughput',
+						description: 'Change the provisioned or autoscale throughput of a database or container',
+						action: 'Replace throughput',
+					},
+				],
+				default: 'select',
+			},
+			{
+				displayName: 'Database',
+				name: 'databaseName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The database to use',
+				displayOptions: {
+					hide: {
+						operation: [
+							'createDatabase',
+							'createContainer',
+							'deleteDatabase',
+							'deleteContainer',
+							'getContainer',
+							'updateContainer',
+							'getThroughput',
+							'replaceThroughput',
+						],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a database...',
+						typeOptions: {
+							searchListMethod: 'getDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'database name',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'my-database',
+					},
+				],
+			},
+			{
+				displayName: 'Container',
+				name: 'containerName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The container to use',
+				displayOptions: {
+					hide: {
+						operation: [
+							'createDatabase',
+							'createContainer',
+							'deleteDatabase',
+							'deleteContainer',
+							'getContainer',
+							'updateContainer',
+							'getThroughput',
+							'replaceThroughput',
+						],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a container...',
+						typeOptions: {
+							searchListMethod: 'getContainersForDocOps',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+				],
+			},
+			{
+				displayName: 'SQL Query',
+				name: 'sqlQuery',
+				type: 'string',
+				typeOptions: {
+					rows: 5,
+				},
+				default: 'SELECT * FROM c',
+				required: true,
+				placeholder: 'SELECT * FROM c WHERE c.status = "active"',
+				description: 'The SQL query to execute against the container',
+				displayOptions: {
+					show: {
+						operation: ['select'],
+					},
+				},
+			},
+			{
+				...queryParametersProperty,
+				displayOptions: {
+					show: {
+						operation: ['select'],
+					},
+				},
+			},
+			{
+				displayName: 'Search Mode',
+				name: 'hybridSearchMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Hybrid',
+						value: 'hybrid',
+						description: 'Combine full-text and vector ranking with Reciprocal Rank Fusion',
+					},
+					{
+						name: 'Keyword Only',
+						value: 'keyword',
+						description: 'Match and rank documents on the search terms only',
+					},
+				],
+				default: 'hybrid',
+				displayOptions: {
+					show: {
+						operation: ['hybridSearch'],
+					},
+				},
+			},
+			{
+				displayName: 'Search Terms',
+				name: 'searchText',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'cosmos vector database',
+				description: 'Space-separated terms to search for in the text field',
+				displayOptions: {
+					show: {
+						operation: ['hybridSearch'],
+					},
+				},
+			},
+			{
+				displayName: 'Text Path',
+				name: 'textPath',
+				type: 'string',
+				default: '',
+				placeholder: '/text',
+				description: "Path of the text field to search. Leave empty to use the path from the container's full-text policy.",
+				displayOptions: {
+					show: {
+						operation: ['hybridSearch'],
+					},
+				},
+			},
+			{
+				displayName: 'Keyword Match',
+				name: 'keywordMatch',
+				type: 'options',
+				options: [
+					{
+						name: 'All Terms',
+						value: 'all',
+						description: 'Documents must contain every term (FullTextContainsAll)',
+					},
+					{
+						name: 'Any Term',
+						value: 'any',
+						description: 'Documents must contain at least one term (FullTextContainsAny)',
+					},
+					{
+						name: 'Exact Phrase',
+						value: 'phrase',
+						description: 'Documents must contain the search terms as one phrase (FullTextContains)',
+					},
+				],
+				default: 'any',
+				description: 'Which documents match the search terms. Matches are ranked by full-text score.',
+				displayOptions: {
+					show: {
+						operation: ['hybridSearch'],
+						hybridSearchMode: ['keyword'],
+					},
+				},
+			},
+			{
+				displayName: 'Query Vector',
+				name: 'queryVector',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: '={{ $json.embedding }}',
+				description: 'The embedding to compare documents against, as an array of numbers or a JSON array string',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch', 'hybridSearch'],
+					},
+					hide: {
+						hybridSearchMode: ['keyword'],
+					},
+				},
+			},
+			{
+				displayName: 'Vector Path',
+				name: 'vectorPath',
+				type: 'string',
+				default: '',
+				placeholder: '/embedding',
+				description: "Path of the vector field to search. Leave empty to use the path from the container's vector embedding policy.",
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch', 'hybridSearch'],
+					},
+					hide: {
+						hybridSearchMode: ['keyword'],
+					},
+				},
+			},
+			{
+				displayName: 'Full-Text Weight',
+				name: 'fullTextWeight',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				default: 1,
+				description: 'Weight of the full-text ranking in the combined rank',
+				displayOptions: {
+					show: {
+						operation: ['hybridSearch'],
+						hybridSearchMode: ['hybrid'],
+					},
+				},
+			},
+			{
+				displayName: 'Vector Weight',
+				name: 'vectorWeight',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				default: 1,
+				description: 'Weight of the vector ranking in the combined rank',
+				displayOptions: {
+					show: {
+						operation: ['hybridSearch'],
+						hybridSearchMode: ['hybrid'],
+					},
+				},
+			},
+			{
+				displayName: 'Top K',
+				name: 'topK',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 10,
+				description: 'Number of best-matching documents to return',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch', 'hybridSearch'],
+					},
+				},
+			},
+			{
+				displayName: 'Filter',
+				name: 'filter',
+				type: 'string',
+				default: '',
+				placeholder: 'c.category = @category AND c.year >= 2023',
+				description: 'Optional condition, without the WHERE keyword, that documents must match. Bind @name placeholders under Query Parameters.',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch', 'hybridSearch'],
+					},
+				},
+			},
+			{
+				...queryParametersProperty,
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch', 'hybridSearch'],
+					},
+				},
+			},
+			{
+				displayName: 'Fields',
+				name: 'fields',
+				type: 'string',
+				default: '',
+				placeholder: 'title, summary, metadata.author',
+				description: 'Comma-separated fields to return. Leave empty to return whole documents.',
+				displayOptions: {
+					show: {
+						operation: ['vectorSearch', 'hybridSearch'],
+					},
+				},
+			},
+			{
+				displayName: 'Delete Mode',
+				name: 'deleteMode',
+				type: 'options',
+				options: [
+					{
+						name: 'By ID and Partition Key',
+						value: 'byId',
+						description: 'Delete a specific document by ID and partition key value',
+					},
+					{
+						name: 'By Partition Key',
+						value: 'byPartitionKey',
+						description:
+							'Delete every document with a partition key value on the server. Requires the delete by partition key feature on the account.',
+					},
+					{
+						name: 'By Query',
+						value: 'byQuery',
+						description: 'Delete multiple documents matching a SQL query',
+					},
+				],
+				default: 'byId',
+				displayOptions: {
+					show: {
+						operation: ['delete'],
+					},
+				},
+			},
+			{
+				displayName: 'Document ID',
+				name: 'documentId',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: '123456',
+				description: 'The ID of the document',
+				displayOptions: {
+					show: {
+						operation: ['get', 'delete', 'patch'],
+					},
+					hide: {
+						deleteMode: ['byQuery', 'byPartitionKey'],
+					},
+				},
+			},
+			{
+				displayName: 'Partition Key Type',
+				name: 'partitionKeyType',
+				type: 'options',
+				options: [
+					{
+						name: 'Boolean',
+						value: 'boolean',
+						description: 'The partition key is true or false',
+					},
+					{
+						name: 'JSON Array (Hierarchical)',
+						value: 'jsonArray',
+						description: 'One value per path of a hierarchical partition key, e.g. ["contoso", "user-1"]',
+					},
+					{
+						name: 'None (Missing)',
+						value: 'none',
+						description: 'The document has no partition key field',
+					},
+					{
+						name: 'Null',
+						value: 'null',
+						description: 'The partition key field is null',
+					},
+					{
+						name: 'Number',
+						value: 'number',
+						description: 'The partition key is a number',
+					},
+					{
+						name: 'String',
+						value: 'string',
+						description: 'The partition key is a string',
+					},
+				],
+				default: 'string',
+				description: 'The JSON type of the partition key value. It must match the type stored in the document.',
+				displayOptions: {
+					show: {
+						operation: ['get', 'delete', 'patch', 'transactionalBatch', 'executeStoredProcedure'],
+					},
+					hide: {
+						deleteMode: ['byQuery'],
+					},
+				},
+			},
+			{
+				displayName: 'Partition Key Value',
+				name: 'partitionKeyValue',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'electronics',
+				description:
+					'The partition key value of the document. For a transactional batch, all operations share this partition key.',
+				displayOptions: {
+					show: {
+						operation: ['get', 'delete', 'patch', 'transactionalBatch', 'executeStoredProcedure'],
+					},
+					hide: {
+						deleteMode: ['byQuery'],
+						partitionKeyType: ['null', 'none'],
+					},
+				},
+			},
+			{
+				displayName: 'Delete Query',
+				name: 'deleteQuery',
+				type: 'string',
+				typeOptions: {
+					rows: 5,
+				},
+				default: 'SELECT * FROM c WHERE c.status = "inactive"',
+				required: true,
+				placeholder: 'SELECT * FROM c WHERE c.createdAt < "2024-01-01"',
+				description: 'SQL query to select documents to delete. Use SELECT * to include all fields needed for deletion (ID and partition key).',
+				displayOptions: {
+					show: {
+						operation: ['delete'],
+						deleteMode: ['byQuery'],
+					},
+				},
+			},
+			{
+				...queryParametersProperty,
+				displayOptions: {
+					show: {
+						operation: ['delete'],
+						deleteMode: ['byQuery'],
+					},
+				},
+			},
+			{
+				displayName: 'Delete Options',
+				name: 'deleteOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['delete'],
+						deleteMode: ['byQuery'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 10,
+						description: 'Maximum number of delete requests in flight at the same time',
+					},
+					{
+						displayName: 'Max Throttle Retries',
+						name: 'maxThrottleRetries',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 5,
+						description:
+							'How often a request throttled by Cosmos DB (429) is retried after the wait it asks for, on top of the retries the SDK already makes',
+					},
+					{
+						displayName: 'Page Size',
+						name: 'pageSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 100,
+						description: 'Number of matching documents read and deleted per query page',
+					},
+					{
+						displayName: 'Return Deleted IDs',
+						name: 'returnDeletedIds',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to list the ID of every deleted document in the output. Turn off for large purges.',
+					},
+				],
+			},
+			{
+				displayName: 'Document',
+				name: 'document',
+				type: 'json',
+				default: '{}',
+				required: true,
+				placeholder: '{"ID": "123", "name": "Example"}',
+				description: 'The document to insert as JSON. Must include an ID field.',
+				displayOptions: {
+					show: {
+						operation: ['insert', 'upsert', 'replace'],
+					},
+				},
+			},
+			{
+				displayName: 'Patch Operations',
+				name: 'patchOperations',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				placeholder: 'Add Patch Operation',
+				default: {},
+				required: true,
+				description: 'The JSON Patch operations to apply, in order (maximum 10)',
+				displayOptions: {
+					show: {
+						operation: ['patch'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Operation',
+						name: 'operation',
+						values: [
+							{
+								displayName: 'From',
+								name: 'from',
+								type: 'string',
+								default: '',
+								placeholder: '/oldName',
+								description: 'The path to move the value from',
+								displayOptions: {
+									show: {
+										op: ['move'],
+									},
+								},
+							},
+							{
+								displayName: 'Operation Type',
+								name: 'op',
+								type: 'options',
+								options: [
+									{
+										name: 'Add',
+										value: 'add',
+										description: 'Add a property, or insert an element into an array',
+									},
+									{
+										name: 'Increment',
+										value: 'incr',
+										description: 'Increment a number property by the given value',
+									},
+									{
+										name: 'Move',
+										value: 'move',
+										description: 'Move a value from one path to another',
+									},
+									{
+										name: 'Remove',
+										value: 'remove',
+										description: 'Remove a property or array element',
+									},
+									{
+										name: 'Replace',
+										value: 'replace',
+										description: 'Replace an existing property (fails if it does not exist)',
+									},
+									{
+										name: 'Set',
+										value: 'set',
+										description: 'Set a property, creating it if it does not exist',
+									},
+								],
+								default: 'set',
+							},
+							{
+								displayName: 'Path',
+								name: 'path',
+								type: 'string',
+								default: '',
+								placeholder: '/status',
+								description: 'The path of the property to change (e.g., /status, /address/zip, /tags/0)',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+								placeholder: 'active',
+								description: 'The value to write. Arrays and objects must be valid JSON. For Increment, the number to add.',
+								displayOptions: {
+									show: {
+										op: ['add', 'incr', 'replace', 'set'],
+									},
+								},
+							},
+							{
+								displayName: 'Value Type',
+								name: 'valueType',
+								type: 'options',
+								options: [
+									{ name: 'Array', value: 'array' },
+									{ name: 'Boolean', value: 'boolean' },
+									{ name: 'Null', value: 'null' },
+									{ name: 'Number', value: 'number' },
+									{ name: 'Object', value: 'object' },
+									{ name: 'String', value: 'string' },
+								],
+								default: 'string',
+								description: 'How the value is converted before it is sent to Cosmos DB',
+								displayOptions: {
+									show: {
+										op: ['add', 'replace', 'set'],
+									},
+								},
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Condition',
+				name: 'patchCondition',
+				type: 'string',
+				default: '',
+				placeholder: 'FROM c WHERE c.status = "pending"',
+				description: 'Optional SQL filter predicate. The patch is only applied if the stored document matches it.',
+				displayOptions: {
+					show: {
+						operation: ['patch'],
+					},
+				},
+			},
+			{
+				displayName: 'Execution Mode',
+				name: 'executionMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Per Item',
+						value: 'perItem',
+						description: 'Send one request per input item',
+					},
+					{
+						name: 'Bulk',
+						value: 'bulk',
+						description: 'Collect all input items and send them through the bulk API. Database, container and bulk settings are taken from the first item.',
+					},
+				],
+				default: 'perItem',
+				displayOptions: {
+					show: {
+						operation: ['insert', 'upsert', 'delete'],
+					},
+					hide: {
+						deleteMode: ['byQuery', 'byPartitionKey'],
 					},
 				},
-			);
-			context.logger.info('✅ Token refreshed successfully via Cosmos DB API call');
-		} catch (error) {
-			context.logger.warn('Token refresh attempt failed, continuing with existing token');
-		}
-	} else if (timeUntilExpiry > 0) {
-		context.logger.info(`✓ Token still valid, expires in ${Math.floor(timeUntilExpiry / 60)} minutes`);
-	}
-}
-
-export class AzureCosmosSdk implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'Azure Cosmos DB (SDK)',
-		name: 'azureCosmosSdk',
-		icon: 'fa:cloud',
-		iconColor: 'blue',
-		group: ['transform'],
-		version: 1,
-		description: 'Interact with Azure Cosmos DB using the official SDK (supports vector search and hybrid queries)',
-		defaults: {
-			name: 'Azure Cosmos DB (SDK)',
-		},
-		inputs: ['main'],
-		outputs: ['main'],
-		usableAsTool: true,
-		credentials: [
+			},
 			{
-				name: 'azureCosmosSdkApi',
-				required: true,
+				displayName: 'Bulk Batch Size',
+				name: 'bulkBatchSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 100,
+				description: 'Number of operations passed to the bulk API per call',
 				displayOptions: {
 					show: {
-						authenticationType: ['masterKey'],
+						operation: ['insert', 'upsert', 'delete'],
+						executionMode: ['bulk'],
 					},
 				},
 			},
 			{
-				name: 'azureCosmosSdkEntraIdApi',
-				required: true,
+				displayName: 'Bulk Concurrency',
+				name: 'bulkConcurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 5,
+				description: 'Number of bulk API calls in flight at the same time',
 				displayOptions: {
 					show: {
-						authenticationType: ['entraId'],
+						operation: ['insert', 'upsert', 'delete'],
+						executionMode: ['bulk'],
 					},
 				},
 			},
-		],
-		properties: [
 			{
-				displayName: 'Authentication Type',
-				name: 'authenticationType',
+				displayName: 'Only If Unchanged',
+				name: 'ifMatch',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to replace the document only if its ETag still matches, so changes made by others since it was read are not overwritten',
+				displayOptions: {
+					show: {
+						operation: ['replace'],
+					},
+				},
+			},
+			{
+				displayName: 'Only If Unchanged',
+				name: 'ifMatch',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to write only if the document\'s ETag still matches, so changes made by others since it was read are not overwritten. For Delete by Query, the ETag of each queried document is used.',
+				displayOptions: {
+					show: {
+						operation: ['upsert', 'patch', 'delete'],
+					},
+					hide: {
+						deleteMode: ['byPartitionKey'],
+					},
+				},
+			},
+			{
+				displayName: 'ETag Source',
+				name: 'etagSource',
 				type: 'options',
 				options: [
 					{
-						name: 'Master Key',
-						value: 'masterKey',
-						description: 'Authenticate using Cosmos DB master key',
+						name: 'From Document',
+						value: 'document',
+						description: 'Use the _etag field of the document. For Patch and Delete, the _etag field of the input item is used.',
 					},
 					{
-						name: 'Microsoft Entra ID',
-						value: 'entraId',
-						description: 'Authenticate using Microsoft Entra ID (Azure AD) OAuth2',
+						name: 'Explicit Value',
+						value: 'explicit',
+						description: 'Enter the ETag, e.g. with an expression',
 					},
 				],
-				default: 'masterKey',
-				description: 'The authentication method to use',
+				default: 'document',
+				displayOptions: {
+					show: {
+						operation: ['replace', 'upsert', 'patch', 'delete'],
+						ifMatch: [true],
+					},
+					hide: {
+						deleteMode: ['byQuery', 'byPartitionKey'],
+					},
+				},
 			},
 			{
-				displayName: 'Operation',
-				name: 'operation',
+				displayName: 'ETag',
+				name: 'etag',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: '"00000000-0000-0000-0000-000000000000"',
+				description: 'The ETag the stored document must have for the write to succeed',
+				displayOptions: {
+					show: {
+						operation: ['replace', 'upsert', 'patch', 'delete'],
+						ifMatch: [true],
+						etagSource: ['explicit'],
+					},
+				},
+			},
+			{
+				displayName: 'Batch Source',
+				name: 'batchSource',
 				type: 'options',
-				noDataExpression: true,
 				options: [
 					{
-						name: 'Select',
-						value: 'select',
-						description: 'Query documents using SQL',
-						action: 'Query documents',
+						name: 'JSON Array',
+						value: 'json',
+						description: 'Each input item runs one batch built from a JSON array of operations',
 					},
 					{
-						name: 'Insert',
-						value: 'insert',
-						description: 'Insert a new document (fails if ID exists)',
-						action: 'Insert a document',
+						name: 'Input Items',
+						value: 'inputItems',
+						description: 'Each input item becomes one operation. Items are grouped into one batch per partition key value.',
+					},
+				],
+				default: 'json',
+				displayOptions: {
+					show: {
+						operation: ['transactionalBatch'],
+					},
+				},
+			},
+			{
+				displayName: 'Batch Operations',
+				name: 'batchOperations',
+				type: 'json',
+				default: '[]',
+				required: true,
+				placeholder: '[{"operationType": "Upsert", "resourceBody": {...}}]',
+				description: 'Array of up to 100 operations. Each has an operationType (Create, Upsert, Replace, Patch, Delete, Read), an ID and/or resourceBody, and an optional ifMatch ETag. Patch operations take an operations array and an optional condition.',
+				displayOptions: {
+					show: {
+						operation: ['transactionalBatch'],
+						batchSource: ['json'],
 					},
+				},
+			},
+			{
+				displayName: 'Operation Type',
+				name: 'batchOperationType',
+				type: 'options',
+				options: [
 					{
-						name: 'Create or Update',
-						value: 'upsert',
-						description: 'Create a new record, or update the current one if it already exists (upsert)',
-						action: 'Upsert a document',
+						name: 'Create',
+						value: 'Create',
+						description: 'Create the input item as a new document',
 					},
 					{
 						name: 'Delete',
-						value: 'delete',
-						description: 'Delete documents matching a SQL query',
-						action: 'Delete documents',
+						value: 'Delete',
+						description: 'Delete the document with the ID of the input item',
 					},
 					{
-						name: 'Create Database',
-						value: 'createDatabase',
-						description: 'Create a new Cosmos DB database',
-						action: 'Create a database',
+						name: 'Patch',
+						value: 'Patch',
+						description: 'Patch the document with the ID of the input item using its operations array',
 					},
 					{
-						name: 'Create Container',
-						value: 'createContainer',
-						description: 'Create a new container with partition key, vector index, and full-text index support',
-						action: 'Create a container',
+						name: 'Read',
+						value: 'Read',
+						description: 'Read the document with the ID of the input item',
 					},
 					{
-						name: 'Delete Database',
-						value: 'deleteDatabase',
-						description: 'Delete a database and all its containers',
-						action: 'Delete a database',
+						name: 'Replace',
+						value: 'Replace',
+						description: 'Replace the document with the input item',
 					},
 					{
-						name: 'Delete Container',
-						value: 'deleteContainer',
-						description: 'Delete a container from a database',
-						action: 'Delete a container',
+						name: 'Upsert',
+						value: 'Upsert',
+						description: 'Create or replace the document with the input item',
 					},
 				],
-				default: 'select',
+				default: 'Create',
+				description: 'The operation each input item performs in the batch',
+				displayOptions: {
+					show: {
+						operation: ['transactionalBatch'],
+						batchSource: ['inputItems'],
+					},
+				},
 			},
 			{
-				displayName: 'Database',
-				name: 'databaseName',
-				type: 'resourceLocator',
-				default: { mode: 'list', value: '' },
+				displayName: 'Script Type',
+				name: 'scriptType',
+				type: 'options',
+				options: [
+					{
+						name: 'Stored Procedure',
+						value: 'storedProcedure',
+					},
+					{
+						name: 'User-Defined Function',
+						value: 'userDefinedFunction',
+					},
+					{
+						name: 'Trigger',
+						value: 'trigger',
+					},
+				],
+				default: 'storedProcedure',
+				description: 'The kind of server-side script',
+				displayOptions: {
+					show: {
+						operation: ['createScript', 'replaceScript', 'listScripts', 'deleteScript'],
+					},
+				},
+			},
+			{
+				displayName: 'Script ID',
+				name: 'scriptId',
+				type: 'string',
+				default: '',
 				required: true,
-				description: 'The database to use',
+				placeholder: 'bulkImport',
+				description: 'The ID of the stored procedure, user-defined function or trigger',
 				displayOptions: {
-					hide: {
-						operation: ['createDatabase', 'createContainer', 'deleteDatabase', 'deleteContainer'],
+					show: {
+						operation: ['executeStoredProcedure', 'createScript', 'replaceScript', 'deleteScript'],
 					},
 				},
-				modes: [
-					{
-						displayName: 'From List',
-						name: 'list',
-						type: 'list',
-						placeholder: 'Select a database...',
-						typeOptions: {
-							searchListMethod: 'getDatabases',
-							searchable: true,
-						},
+			},
+			{
+				displayName: 'Script Body',
+				name: 'scriptBody',
+				type: 'string',
+				typeOptions: {
+					rows: 10,
+				},
+				default: '',
+				required: true,
+				placeholder: 'function sample(prefix) { var context = getContext(); ... }',
+				description: 'The JavaScript source of the script',
+				displayOptions: {
+					show: {
+						operation: ['createScript', 'replaceScript'],
 					},
+				},
+			},
+			{
+				displayName: 'Trigger Type',
+				name: 'triggerType',
+				type: 'options',
+				options: [
 					{
-						displayName: 'By Name',
-						name: 'name',
-						type: 'string',
-						placeholder: 'database name',
+						name: 'Pre',
+						value: 'Pre',
+						description: 'Runs before the write',
 					},
 					{
-						displayName: 'By ID',
-						name: 'id',
-						type: 'string',
-						placeholder: 'my-database',
+						name: 'Post',
+						value: 'Post',
+						description: 'Runs after the write, in the same transaction',
 					},
 				],
+				default: 'Pre',
+				displayOptions: {
+					show: {
+						operation: ['createScript', 'replaceScript'],
+						scriptType: ['trigger'],
+					},
+				},
 			},
 			{
-				displayName: 'Container',
-				name: 'containerName',
-				type: 'resourceLocator',
-				default: { mode: 'list', value: '' },
-				required: true,
-				description: 'The container to use',
+				displayName: 'Trigger Operation',
+				name: 'triggerOperation',
+				type: 'options',
+				options: [
+					{ name: 'All', value: 'All' },
+					{ name: 'Create', value: 'Create' },
+					{ name: 'Delete', value: 'Delete' },
+					{ name: 'Replace', value: 'Replace' },
+					{ name: 'Update', value: 'Update' },
+				],
+				default: 'All',
+				description: 'The write operation the trigger can be used with',
 				displayOptions: {
-					hide: {
-						operation: ['createDatabase', 'createContainer', 'deleteDatabase', 'deleteContainer'],
+					show: {
+						operation: ['createScript', 'replaceScript'],
+						scriptType: ['trigger'],
+					},
+				},
+			},
+			{
+				displayName: 'Stored Procedure Parameters',
+				name: 'storedProcedureParameters',
+				type: 'json',
+				default: '[]',
+				placeholder: '["prefix", 10, {"dryRun": true}]',
+				description: 'JSON array of arguments passed to the stored procedure function',
+				displayOptions: {
+					show: {
+						operation: ['executeStoredProcedure'],
+					},
+				},
+			},
+			{
+				displayName: 'Request Options',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: 'Add Request Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: [
+							'select',
+							'vectorSearch',
+							'hybridSearch',
+							'get',
+							'insert',
+							'upsert',
+							'replace',
+							'patch',
+							'delete',
+							'transactionalBatch',
+							'executeStoredProcedure',
+						],
+					},
+				},
+				options: [
+					{
+						displayName: 'Consistency Level',
+						name: 'consistencyLevel',
+						type: 'options',
+						options: [
+							{
+								name: 'Bounded Staleness',
+								value: 'BoundedStaleness',
+							},
+							{
+								name: 'Consistent Prefix',
+								value: 'ConsistentPrefix',
+							},
+							{
+								name: 'Eventual',
+								value: 'Eventual',
+							},
+							{
+								name: 'Session',
+								value: 'Session',
+							},
+							{
+								name: 'Strong',
+								value: 'Strong',
+							},
+						],
+						default: 'Eventual',
+						description: "Consistency level for this read. Can only be weaker than the account's default consistency.",
+						displayOptions: {
+							show: {
+								'/operation': ['select', 'vectorSearch', 'hybridSearch', 'get'],
+							},
+						},
+					},
+					{
+						displayName: 'Indexing Directive',
+						name: 'indexingDirective',
+						type: 'options',
+						options: [
+							{
+								name: 'Exclude',
+								value: 'Exclude',
+								description: 'Do not index the document; it can still be read by ID',
+							},
+							{
+								name: 'Include',
+								value: 'Include',
+								description: 'Index the document, even if the container indexes nothing by default',
+							},
+						],
+						default: 'Exclude',
+						description: "Whether to add the written document to the container's index",
+						displayOptions: {
+							show: {
+								'/operation': ['insert', 'upsert', 'replace'],
+							},
+						},
+					},
+					{
+						displayName: 'Max Integrated Cache Staleness (Ms)',
+						name: 'maxIntegratedCacheStalenessInMs',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 300000,
+						description:
+							'Accept results from the integrated cache that are at most this old. Only applies when connecting through a dedicated gateway with Session or Eventual consistency.',
+						displayOptions: {
+							show: {
+								'/operation': ['select', 'vectorSearch', 'hybridSearch', 'get'],
+							},
+						},
+					},
+					{
+						displayName: 'Post-Triggers',
+						name: 'postTriggers',
+						type: 'string',
+						default: '',
+						placeholder: 'updateMetadata',
+						description: 'Comma-separated IDs of post-triggers to run after the write. Not supported in Bulk mode.',
+						displayOptions: {
+							show: {
+								'/operation': ['insert', 'upsert', 'replace', 'patch', 'delete'],
+							},
+						},
 					},
-				},
-				modes: [
 					{
-						displayName: 'From List',
-						name: 'list',
-						type: 'list',
-						placeholder: 'Select a container...',
-						typeOptions: {
-							searchListMethod: 'getContainersForDocOps',
-							searchable: true,
+						displayName: 'Pre-Triggers',
+						name: 'preTriggers',
+						type: 'string',
+						default: '',
+						placeholder: 'validateDocument',
+						description: 'Comma-separated IDs of pre-triggers to run before the write. Not supported in Bulk mode.',
+						displayOptions: {
+							show: {
+								'/operation': ['insert', 'upsert', 'replace', 'patch', 'delete'],
+							},
 						},
 					},
 					{
-						displayName: 'By Name',
-						name: 'name',
-						type: 'string',
-						placeholder: 'my-container',
+						displayName: 'Priority Level',
+						name: 'priorityLevel',
+						type: 'options',
+						options: [
+							{
+								name: 'High',
+								value: 'High',
+							},
+							{
+								name: 'Low',
+								value: 'Low',
+							},
+						],
+						default: 'Low',
+						description:
+							'With priority-based execution enabled on the account, low-priority requests are throttled first when the container is busy',
 					},
 					{
-						displayName: 'By ID',
-						name: 'id',
+						displayName: 'Session Token',
+						name: 'sessionToken',
+						// eslint-disable-next-line n8n-nodes-base/node-param-type-options-password-missing
 						type: 'string',
-						placeholder: 'my-container',
+						default: '',
+						placeholder: '={{ $json.$cosmos.sessionToken }}',
+						description:
+							'Session token returned by an earlier request, so this request sees its writes under Session consistency. Enable Response Metadata on the earlier node to output its session token.',
 					},
 				],
 			},
 			{
-				displayName: 'SQL Query',
-				name: 'sqlQuery',
-				type: 'string',
-				typeOptions: {
-					rows: 5,
-				},
-				default: 'SELECT * FROM c',
-				required: true,
-				placeholder: 'SELECT * FROM c WHERE c.status = "active"',
-				description: 'The SQL query to execute against the container',
+				displayName: 'Read Many',
+				name: 'readMany',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to read the documents for all input items with a single Read Many request instead of one point read per item. Database, container and options are taken from the first item.',
 				displayOptions: {
 					show: {
-						operation: ['select'],
+						operation: ['get'],
 					},
 				},
 			},
 			{
-				displayName: 'Delete Mode',
-				name: 'deleteMode',
+				displayName: 'If Not Found',
+				name: 'notFoundBehavior',
 				type: 'options',
 				options: [
 					{
-						name: 'By ID and Partition Key',
-						value: 'byId',
-						description: 'Delete a specific document by ID and partition key value',
+						name: 'Error',
+						value: 'error',
+						description: 'Fail the item',
 					},
 					{
-						name: 'By Query',
-						value: 'byQuery',
-						description: 'Delete multiple documents matching a SQL query',
+						name: 'Output Empty Item',
+						value: 'outputEmpty',
+						description: 'Output an item with no fields',
 					},
-				],
-				default: 'byId',
-				displayOptions: {
-					show: {
-						operation: ['delete'],
+					{
+						name: 'Output Nothing',
+						value: 'outputNothing',
+						description: 'Skip the item',
 					},
-				},
-			},
-			{
-				displayName: 'Document ID',
-				name: 'documentId',
-				type: 'string',
-				default: '',
-				required: true,
-				placeholder: '123456',
-				description: 'The ID of the document to delete',
+				],
+				default: 'error',
+				description: 'What to do when no document exists with the given ID and partition key',
 				displayOptions: {
 					show: {
-						operation: ['delete'],
-						deleteMode: ['byId'],
+						operation: ['get'],
 					},
 				},
 			},
 			{
-				displayName: 'Partition Key Value',
-				name: 'partitionKeyValue',
+				displayName: 'New Database Name',
+				name: 'newDatabaseName',
 				type: 'string',
 				default: '',
 				required: true,
-				placeholder: 'electronics',
-				description: 'The partition key value of the document to delete',
-				displayOptions: {
-					show: {
-						operation: ['delete'],
-						deleteMode: ['byId'],
-					},
-				},
-			},
-			{
-				displayName: 'Delete Query',
-				name: 'deleteQuery',
-				type: 'string',
-				typeOptions: {
-					rows: 5,
-				},
-				default: 'SELECT * FROM c WHERE c.status = "inactive"',
-				required: true,
-				placeholder: 'SELECT * FROM c WHERE c.createdAt < "2024-01-01"',
-				description: 'SQL query to select documents to delete. Use SELECT * to include all fields needed for deletion (ID and partition key).',
-				displayOptions: {
-					show: {
-						operation: ['delete'],
-						deleteMode: ['byQuery'],
-					},
-				},
-			},
-			{
-				displayName: 'Document',
-				name: 'document',
-				type: 'json',
-				default: '{}',
-				required: true,
-				placeholder: '{"ID": "123", "name": "Example"}',
-				description: 'The document to insert as JSON. Must include an ID field.',
+				placeholder: 'my-new-database',
+				description: 'The name of the database to create',
 				displayOptions: {
 					show: {
-						operation: ['insert', 'upsert'],
+						operation: ['createDatabase'],
 					},
 				},
 			},
 			{
-				displayName: 'New Database Name',
-				name: 'newDatabaseName',
-				type: 'string',
-				default: '',
-				required: true,
-				placeholder: 'my-new-database',
-				description: 'The name of the database to create',
+				...throughputModeProperty,
 				displayOptions: {
 					show: {
 						operation: ['createDatabase'],
@@ -379,6 +3245,18 @@ export class AzureCosmosSdk implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['createDatabase'],
+						throughputMode: ['manual'],
+					},
+				},
+			},
+			{
+				...autoscaleMaxThroughputProperty,
+				description:
+					'The highest throughput autoscale may scale to, in steps of 1000 RU/s. The containers of the database share it.',
+				displayOptions: {
+					show: {
+						operation: ['createDatabase'],
+						throughputMode: ['autoscale'],
 					},
 				},
 			},
@@ -458,7 +3336,16 @@ export class AzureCosmosSdk implements INodeType {
 				default: '/partitionKey',
 				required: true,
 				placeholder: '/partitionKey',
-				description: 'The partition key path (e.g., /partitionKey, /category, /userId). Must start with /',
+				description:
+					'The partition key path (e.g., /partitionKey, /category, /address/zip). Must start with /. Enter up to three comma-separated paths (e.g., /tenantId, /userId, /sessionId) for a hierarchical partition key.',
+				displayOptions: {
+					show: {
+						operation: ['createContainer'],
+					},
+				},
+			},
+			{
+				...throughputModeProperty,
 				displayOptions: {
 					show: {
 						operation: ['createContainer'],
@@ -475,6 +3362,16 @@ export class AzureCosmosSdk implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['createContainer'],
+						throughputMode: ['manual'],
+					},
+				},
+			},
+			{
+				...autoscaleMaxThroughputProperty,
+				displayOptions: {
+					show: {
+						operation: ['createContainer'],
+						throughputMode: ['autoscale'],
 					},
 				},
 			},
@@ -536,33 +3433,389 @@ export class AzureCosmosSdk implements INodeType {
 						name: 'distanceFunction',
 						type: 'options',
 						options: [
-							{ name: 'Cosine', value: 'cosine' },
-							{ name: 'Euclidean', value: 'euclidean' },
-							{ name: 'Dot Product', value: 'dotproduct' },
+							{ name: 'Cosine', value: 'cosine' },
+							{ name: 'Euclidean', value: 'euclidean' },
+							{ name: 'Dot Product', value: 'dotproduct' },
+						],
+						default: 'cosine',
+						description: 'The distance function to use for similarity calculations',
+					},
+					{
+						displayName: 'Index Type',
+						name: 'indexType',
+						type: 'options',
+						options: [
+							{ name: 'Flat', value: 'flat' },
+							{ name: 'Quantized Flat', value: 'quantizedFlat' },
+							{ name: 'Disk ANN', value: 'diskANN' },
+						],
+						default: 'quantizedFlat',
+						description: 'The type of vector index to use',
+					},
+				],
+			},
+			{
+				displayName: 'Enable Full-Text Index',
+				name: 'enableFullTextIndex',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to enable full-text search indexing',
+				displayOptions: {
+					show: {
+						operation: ['createContainer'],
+					},
+				},
+			},
+			{
+				displayName: 'Full-Text Index Paths',
+				name: 'fullTextIndexPaths',
+				type: 'string',
+				default: '/text',
+				placeholder: '/text,/content,/title',
+				description: 'Comma-separated list of paths to index for full-text search (e.g., /text,/content,/title). You can specify multiple paths.',
+				displayOptions: {
+					show: {
+						operation: ['createContainer'],
+						enableFullTextIndex: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Container Policies',
+				name: 'containerPolicies',
+				type: 'collection',
+				placeholder: 'Add Policy',
+				default: {},
+				description: 'Further indexing, uniqueness and conflict policies for the new container',
+				displayOptions: {
+					show: {
+						operation: ['createContainer'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Composite Indexes',
+						name: 'compositeIndexes',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Composite Index',
+						default: {},
+						description: 'Indexes over several properties, needed to ORDER BY more than one property and to speed up filters combined with ORDER BY',
+						options: [
+							{
+								displayName: 'Index',
+								name: 'index',
+								values: [
+									{
+										displayName: 'Paths',
+										name: 'fields',
+										type: 'string',
+										default: '',
+										placeholder: '/name asc, /age desc',
+										description: 'Two or more comma-separated paths, each optionally followed by asc or desc (default asc)',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Computed Properties',
+						name: 'computedProperties',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Computed Property',
+						default: {},
+						description: 'Properties derived from each document by a query. They can be queried and indexed but are not stored.',
+						options: [
+							{
+								displayName: 'Property',
+								name: 'property',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										placeholder: 'cp_lowerName',
+										description: 'The name queries use to refer to the property',
+									},
+									{
+										displayName: 'Query',
+										name: 'query',
+										type: 'string',
+										default: '',
+										placeholder: 'SELECT VALUE LOWER(c.name) FROM c',
+										description: 'A SELECT VALUE query computing the property from the document',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Conflict Resolution',
+						name: 'conflictResolution',
+						type: 'fixedCollection',
+						placeholder: 'Set Conflict Resolution',
+						default: {},
+						description: 'How conflicting writes are resolved on accounts with multi-region writes',
+						options: [
+							{
+								displayName: 'Policy',
+								name: 'policy',
+								values: [
+									{
+										displayName: 'Mode',
+										name: 'mode',
+										type: 'options',
+										options: [
+											{
+												name: 'Last Writer Wins',
+												value: 'LastWriterWins',
+												description: 'Keep the version with the highest value of a numeric path',
+											},
+											{
+												name: 'Custom',
+												value: 'Custom',
+												description: 'Resolve with a stored procedure, or record conflicts in the conflicts feed',
+											},
+										],
+										default: 'LastWriterWins',
+									},
+									{
+										displayName: 'Conflict Resolution Path',
+										name: 'conflictResolutionPath',
+										type: 'string',
+										default: '/_ts',
+										description: 'Numeric path compared to pick the winning version',
+										displayOptions: {
+											show: {
+												mode: ['LastWriterWins'],
+											},
+										},
+									},
+									{
+										displayName: 'Stored Procedure Name',
+										name: 'conflictResolutionProcedure',
+										type: 'string',
+										default: '',
+										placeholder: 'resolver',
+										description: 'Stored procedure in the new container that resolves conflicts. Leave empty to record conflicts in the conflicts feed.',
+										displayOptions: {
+											show: {
+												mode: ['Custom'],
+											},
+										},
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Full-Text Default Language',
+						name: 'fullTextDefaultLanguage',
+						type: 'options',
+						options: fullTextLanguageOptions,
+						default: 'en-US',
+						description: 'Language of the full-text paths that have no language of their own',
+					},
+					{
+						displayName: 'Full-Text Path Languages',
+						name: 'fullTextPathLanguages',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Path Language',
+						default: {},
+						description: 'Languages of individual full-text paths. Paths not listed in Full-Text Index Paths are added to the full-text index.',
+						options: [
+							{
+								displayName: 'Path',
+								name: 'path',
+								values: [
+									{
+										displayName: 'Path',
+										name: 'path',
+										type: 'string',
+										default: '',
+										placeholder: '/description',
+										description: 'The full-text path',
+									},
+									{
+										displayName: 'Language',
+										name: 'language',
+										type: 'options',
+										options: fullTextLanguageOptions,
+										default: 'en-US',
+										description: 'The language the text at the path is written in',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Spatial Indexes',
+						name: 'spatialIndexes',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Spatial Index',
+						default: {},
+						description: 'Indexes for geospatial queries such as ST_DISTANCE and ST_WITHIN over GeoJSON properties',
+						options: [
+							{
+								displayName: 'Index',
+								name: 'index',
+								values: [
+									{
+										displayName: 'Path',
+										name: 'path',
+										type: 'string',
+										default: '',
+										placeholder: '/location',
+										description: 'The GeoJSON property to index. /* is appended if missing.',
+									},
+									{
+										displayName: 'Types',
+										name: 'types',
+										type: 'multiOptions',
+										options: [
+											{ name: 'LineString', value: 'LineString' },
+											{ name: 'MultiPolygon', value: 'MultiPolygon' },
+											{ name: 'Point', value: 'Point' },
+											{ name: 'Polygon', value: 'Polygon' },
+										],
+										default: ['Point'],
+										description: 'The GeoJSON types to index at the path',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Unique Keys',
+						name: 'uniqueKeys',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Unique Key',
+						default: {},
+						description: 'Combinations of values that must be unique within each logical partition. They cannot be changed after creation.',
+						options: [
+							{
+								displayName: 'Key',
+								name: 'key',
+								values: [
+									{
+										displayName: 'Paths',
+										name: 'paths',
+										type: 'string',
+										default: '',
+										placeholder: '/email or /firstName, /lastName',
+										description: 'One or more comma-separated paths whose combined values must be unique',
+									},
+								],
+							},
 						],
-						default: 'cosine',
-						description: 'The distance function to use for similarity calculations',
 					},
 					{
-						displayName: 'Index Type',
-						name: 'indexType',
-						type: 'options',
+						displayName: 'Vector Embeddings',
+						name: 'vectorEmbeddings',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: true,
+						},
+						placeholder: 'Add Vector Embedding',
+						default: {},
+						description: 'Vector embeddings in addition to the one in Vector Index Configuration, each with its own path and dimensions',
 						options: [
-							{ name: 'Flat', value: 'flat' },
-							{ name: 'Quantized Flat', value: 'quantizedFlat' },
-							{ name: 'Disk ANN', value: 'diskANN' },
+							{
+								displayName: 'Embedding',
+								name: 'embedding',
+								values: [
+									{
+										displayName: 'Dimensions',
+										name: 'dimensions',
+										type: 'number',
+										default: 1536,
+										description: 'The number of dimensions in the vector',
+									},
+									{
+										displayName: 'Distance Function',
+										name: 'distanceFunction',
+										type: 'options',
+										options: [
+											{ name: 'Cosine', value: 'cosine' },
+											{ name: 'Euclidean', value: 'euclidean' },
+											{ name: 'Dot Product', value: 'dotproduct' },
+										],
+										default: 'cosine',
+										description: 'The distance function to use for similarity calculations',
+									},
+									{
+										displayName: 'Index Type',
+										name: 'indexType',
+										type: 'options',
+										options: [
+											{ name: 'Flat', value: 'flat' },
+											{ name: 'Quantized Flat', value: 'quantizedFlat' },
+											{ name: 'Disk ANN', value: 'diskANN' },
+											{ name: 'None', value: 'none', description: 'Store the embedding without indexing it' },
+										],
+										default: 'quantizedFlat',
+										description: 'The type of vector index to use',
+									},
+									{
+										displayName: 'Vector Path',
+										name: 'path',
+										type: 'string',
+										default: '',
+										placeholder: '/imageEmbedding',
+										description: 'The path to the vector field',
+									},
+									{
+										displayName: 'Vector Type',
+										name: 'dataType',
+										type: 'options',
+										options: [
+											{ name: 'Float16', value: 'float16' },
+											{ name: 'Float32', value: 'float32' },
+											{ name: 'Int8', value: 'int8' },
+											{ name: 'UInt8', value: 'uint8' },
+										],
+										default: 'float32',
+										description: 'The data type of the vector elements',
+									},
+								],
+							},
 						],
-						default: 'quantizedFlat',
-						description: 'The type of vector index to use',
 					},
 				],
 			},
 			{
-				displayName: 'Enable Full-Text Index',
-				name: 'enableFullTextIndex',
-				type: 'boolean',
-				default: false,
-				description: 'Whether to enable full-text search indexing',
+				displayName: 'Definition Mode',
+				name: 'containerDefinitionMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Form Fields',
+						value: 'form',
+						description: 'Build the container definition from the fields above',
+					},
+					{
+						name: 'Form Fields and Raw JSON',
+						value: 'json',
+						description: 'Merge a raw container definition over the one built from the fields above',
+					},
+				],
+				default: 'form',
+				description: 'Advanced: whether to extend the container definition with raw JSON',
 				displayOptions: {
 					show: {
 						operation: ['createContainer'],
@@ -570,16 +3823,15 @@ export class AzureCosmosSdk implements INodeType {
 				},
 			},
 			{
-				displayName: 'Full-Text Index Paths',
-				name: 'fullTextIndexPaths',
-				type: 'string',
-				default: '/text',
-				placeholder: '/text,/content,/title',
-				description: 'Comma-separated list of paths to index for full-text search (e.g., /text,/content,/title). You can specify multiple paths.',
+				displayName: 'Container Definition (JSON)',
+				name: 'containerDefinitionJson',
+				type: 'json',
+				default: '{}',
+				description: 'Container definition properties as accepted by the Cosmos DB REST API, such as defaultTtl or indexingPolicy. Objects are merged with the definition built from the fields; arrays and other values replace it.',
 				displayOptions: {
 					show: {
 						operation: ['createContainer'],
-						enableFullTextIndex: [true],
+						containerDefinitionMode: ['json'],
 					},
 				},
 			},
@@ -704,13 +3956,292 @@ export class AzureCosmosSdk implements INodeType {
 						type: 'string',
 						placeholder: 'my-container',
 					},
-					{
-						displayName: 'By ID',
-						name: 'id',
-						type: 'string',
-						placeholder: 'my-container',
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+				],
+			},
+			{
+				displayName: 'Database',
+				name: 'databaseForContainerDelete',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The database containing the container',
+				displayOptions: {
+					show: {
+						operation: ['getContainer', 'updateContainer'],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a database...',
+						typeOptions: {
+							searchListMethod: 'getDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-database',
+					},
+				],
+			},
+			{
+				displayName: 'Container',
+				name: 'containerToDelete',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The container to read or update',
+				displayOptions: {
+					show: {
+						operation: ['getContainer', 'updateContainer'],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a container...',
+						typeOptions: {
+							searchListMethod: 'getContainers',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+				],
+			},
+			{
+				displayName: 'Update Fields',
+				name: 'containerUpdateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				description: 'The container settings to replace. Settings not added here are kept.',
+				displayOptions: {
+					show: {
+						operation: ['updateContainer'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Computed Properties (JSON)',
+						name: 'computedProperties',
+						type: 'json',
+						default: '[]',
+						description: 'The complete list of computed properties, e.g. [{"name": "cp_lowerName", "query": "SELECT VALUE LOWER(c.name) FROM c"}]. An empty array removes them all.',
+					},
+					{
+						displayName: 'Default Time to Live (Seconds)',
+						name: 'defaultTtl',
+						type: 'number',
+						typeOptions: {
+							minValue: -1,
+						},
+						default: -1,
+						description: 'How long documents live after their last write. -1 enables time to live without expiring documents unless they set their own ttl; 0 turns time to live off.',
+					},
+					{
+						displayName: 'Indexing Policy (JSON)',
+						name: 'indexingPolicy',
+						type: 'json',
+						default: '{}',
+						description: 'The complete new indexing policy, as returned by Get Container. Changing it re-indexes the container in the background.',
+					},
+				],
+			},
+			{
+				displayName: 'Wait for Re-Indexing',
+				name: 'waitForIndexing',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to wait until the container is re-indexed after the update. Queries may return incomplete results until it is.',
+				displayOptions: {
+					show: {
+						operation: ['updateContainer'],
+					},
+				},
+			},
+			{
+				displayName: 'Re-Indexing Timeout (Seconds)',
+				name: 'indexingTimeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 300,
+				description: 'How long to wait for re-indexing before failing. Re-indexing carries on in the background either way.',
+				displayOptions: {
+					show: {
+						operation: ['updateContainer'],
+						waitForIndexing: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Throughput Of',
+				name: 'throughputScope',
+				type: 'options',
+				options: [
+					{
+						name: 'Container',
+						value: 'container',
+						description: 'Throughput dedicated to one container',
+					},
+					{
+						name: 'Database',
+						value: 'database',
+						description: 'Throughput shared by the containers of a database',
+					},
+				],
+				default: 'container',
+				displayOptions: {
+					show: {
+						operation: ['getThroughput', 'replaceThroughput'],
+					},
+				},
+			},
+			{
+				displayName: 'Database',
+				name: 'databaseForContainerDelete',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The database, or the database containing the container',
+				displayOptions: {
+					show: {
+						operation: ['getThroughput', 'replaceThroughput'],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a database...',
+						typeOptions: {
+							searchListMethod: 'getDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-database',
+					},
+				],
+			},
+			{
+				displayName: 'Container',
+				name: 'containerToDelete',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The container whose throughput to read or change',
+				displayOptions: {
+					show: {
+						operation: ['getThroughput', 'replaceThroughput'],
+						throughputScope: ['container'],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a container...',
+						typeOptions: {
+							searchListMethod: 'getContainers',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+				],
+			},
+			{
+				...throughputModeProperty,
+				description:
+					'Must match the current mode. Switching between manual and autoscale is done in the Azure portal or with the Azure CLI.',
+				displayOptions: {
+					show: {
+						operation: ['replaceThroughput'],
+					},
+				},
+			},
+			{
+				displayName: 'Throughput (RU/s)',
+				name: 'throughput',
+				type: 'number',
+				typeOptions: {
+					minValue: 400,
+					numberStepSize: 100,
+				},
+				default: 400,
+				description: 'The new provisioned throughput, in steps of 100 RU/s. It cannot go below the minimum reported by Get Throughput.',
+				displayOptions: {
+					show: {
+						operation: ['replaceThroughput'],
+						throughputMode: ['manual'],
+					},
+				},
+			},
+			{
+				...autoscaleMaxThroughputProperty,
+				displayOptions: {
+					show: {
+						operation: ['replaceThroughput'],
+						throughputMode: ['autoscale'],
+					},
+				},
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to return all results or only up to a given limit',
+				displayOptions: {
+					show: {
+						operation: ['select'],
+					},
+				},
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+				displayOptions: {
+					show: {
+						operation: ['select'],
+						returnAll: [false],
 					},
-				],
+				},
 			},
 			{
 				displayName: 'Options',
@@ -720,10 +4251,23 @@ export class AzureCosmosSdk implements INodeType {
 				default: {},
 				displayOptions: {
 					show: {
-						operation: ['select'],
+						operation: ['select', 'vectorSearch', 'hybridSearch'],
 					},
 				},
 				options: [
+					{
+						displayName: 'Continuation Token',
+						name: 'continuationToken',
+						// eslint-disable-next-line n8n-nodes-base/node-param-type-options-password-missing
+						type: 'string',
+						default: '',
+						description: 'Continuation token returned by a previous page. The query resumes where that page ended.',
+						displayOptions: {
+							show: {
+								'/operation': ['select'],
+							},
+						},
+					},
 					{
 						displayName: 'Exclude Vector Fields',
 						name: 'excludeVectorFields',
@@ -731,6 +4275,33 @@ export class AzureCosmosSdk implements INodeType {
 						default: false,
 						description: 'Whether to exclude vector fields from the results to reduce payload size',
 					},
+					{
+						displayName: 'Max Item Count',
+						name: 'maxItemCount',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 100,
+						description: 'Maximum number of documents Cosmos DB returns per page',
+						displayOptions: {
+							show: {
+								'/operation': ['select'],
+							},
+						},
+					},
+					{
+						displayName: 'Return Single Page',
+						name: 'singlePage',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to return only the next page as one item with its documents and continuation token, so a loop can walk a large container across executions. Return All and Limit are ignored.',
+						displayOptions: {
+							show: {
+								'/operation': ['select'],
+							},
+						},
+					},
 					{
 						displayName: 'Vector Field Names',
 						name: 'vectorFieldNames',
@@ -746,6 +4317,30 @@ export class AzureCosmosSdk implements INodeType {
 					},
 				],
 			},
+			{
+				displayName: 'Response Metadata',
+				name: 'responseMetadata',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Output only the operation result',
+					},
+					{
+						name: 'Add to Each Item',
+						value: 'inline',
+						description: 'Add a $cosmos key with request charge and diagnostics to every output item',
+					},
+					{
+						name: 'Separate Summary Item',
+						value: 'summary',
+						description: 'Output an extra item with the request charge and diagnostics after the results',
+					},
+				],
+				default: 'none',
+				description: 'Whether to report what the operation cost (request charge, activity ID, status codes, duration). Select also reports query and index metrics.',
+			},
 		],
 	};
 
@@ -755,52 +4350,71 @@ export class AzureCosmosSdk implements INodeType {
 
 		// Get authentication type from the first item
 		const authenticationType = this.getNodeParameter('authenticationType', 0) as string;
-		let client: CosmosClient;
-		
-		if (authenticationType === 'entraId') {
-			// Use Entra ID authentication with Microsoft OAuth2
-			const entraIdCredentials = await this.getCredentials('azureCosmosSdkEntraIdApi');
-			const endpoint = entraIdCredentials.endpoint as string;
-			const oauthTokenData = entraIdCredentials.oauthTokenData as any;
-			const refreshBeforeExpirySeconds = (entraIdCredentials.refreshBeforeExpirySeconds as number) || 900;
-
-			// Check and refresh token proactively if needed
-			await checkAndRefreshToken(
-				this,
-				'azureCosmosSdkEntraIdApi',
-				endpoint,
-				oauthTokenData,
-				refreshBeforeExpirySeconds,
-			);
+		const client = await getCosmosClient(this, authenticationType);
 
-			// Create a custom TokenCredential using the delegated OAuth token
-			const tokenCredential: TokenCredential = {
-				async getToken() {
-					// Use the access token from Microsoft OAuth2 credential
-					// n8n handles token refresh automatically via the microsoftOAuth2Api credential
-					return {
-						token: oauthTokenData.access_token,
-						expiresOnTimestamp: oauthTokenData.expires_at 
-							? new Date(oauthTokenData.expires_at).getTime() 
-							: Date.now() + (3600 * 1000),
-					};
-				},
-			};
+		// Reject writes before any request, as n8n cannot hide operations based on credential fields
+		if (await usesReadOnlyKey(this, authenticationType)) {
+			for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+				const operation = this.getNodeParameter('operation', itemIndex) as string;
+				if (!Object.keys(READ_OPERATIONS).includes(operation)) {
+					const readOperationNames = Object.values(READ_OPERATIONS);
+					throw new NodeOperationError(
+						this.getNode(),
+						`The '${operation}' operation is not available with a read-only key`,
+						{
+							itemIndex,
+							description:
+								`The credential is marked as using a read-only key. Use ${readOperationNames.slice(0, -1).join(', ')} or ${readOperationNames[readOperationNames.length - 1]}, or a credential with a read-write key.`,
+						},
+					);
+				}
+			}
+		}
 
-			client = new CosmosClient({ endpoint, aadCredentials: tokenCredential });
-		} else {
-			// Use master key authentication
-			const credentials = await this.getCredentials('azureCosmosSdkApi');
-			const endpoint = credentials.endpoint as string;
-			const key = credentials.key as string;
-			client = new CosmosClient({ endpoint, key });
+		// Read Many handles all input items with a single request
+		if (
+			this.getNodeParameter('operation', 0) === 'get' &&
+			(this.getNodeParameter('readMany', 0, false) as boolean)
+		) {
+			return [await readManyDocuments(this, client, items)];
+		}
+
+		// Transactional batches built from input items group all items by partition key
+		if (
+			this.getNodeParameter('operation', 0) === 'transactionalBatch' &&
+			this.getNodeParameter('batchSource', 0, 'json') === 'inputItems'
+		) {
+			return [await executeBatchFromInputItems(this, client, items)];
+		}
+
+		// Bulk mode sends the writes of all input items through the bulk API
+		const firstOperation = this.getNodeParameter('operation', 0) as string;
+		if (
+			['insert', 'upsert', 'delete'].includes(firstOperation) &&
+			this.getNodeParameter('executionMode', 0, 'perItem') === 'bulk' &&
+			this.getNodeParameter('deleteMode', 0, 'byId') === 'byId'
+		) {
+			return [await executeBulkOperations(this, client, items, firstOperation)];
 		}
 
 		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
 			try {
 				const operation = this.getNodeParameter('operation', itemIndex) as string;
+				const responseMetadataMode = this.getNodeParameter('responseMetadata', itemIndex, 'none') as string;
+				const responseMetadata: IDataObject = { operation };
+				const startTime = Date.now();
+				const outputStart = returnData.length;
 
-				if (operation === 'createDatabase' || operation === 'createContainer' || operation === 'deleteDatabase' || operation === 'deleteContainer') {
+				if ([
+					'createDatabase',
+					'createContainer',
+					'deleteDatabase',
+					'deleteContainer',
+					'getContainer',
+					'updateContainer',
+					'getThroughput',
+					'replaceThroughput',
+				].includes(operation)) {
 					// These operations handle their own database/container access
 					// Continue to operation-specific logic below
 				} else {
@@ -814,77 +4428,505 @@ export class AzureCosmosSdk implements INodeType {
 					if (operation === 'select') {
 					// SELECT operation
 					const sqlQuery = this.getNodeParameter('sqlQuery', itemIndex) as string;
+					const querySpec = buildQuerySpec(this, sqlQuery, itemIndex);
+					const returnAll = this.getNodeParameter('returnAll', itemIndex, true) as boolean;
 					const options = this.getNodeParameter('options', itemIndex, {}) as {
+						continuationToken?: string;
 						excludeVectorFields?: boolean;
+						maxItemCount?: number;
+						singlePage?: boolean;
 						vectorFieldNames?: string;
 					};
 
-					// Execute the SQL query
-					const { resources } = await container.items.query(sqlQuery).fetchAll();
+					const feedOptions: {
+						maxItemCount?: number;
+						continuationToken?: string;
+						populateQueryMetrics?: boolean;
+						populateIndexMetrics?: boolean;
+					} = {};
+					if (responseMetadataMode !== 'none') {
+						feedOptions.populateQueryMetrics = true;
+						feedOptions.populateIndexMetrics = true;
+					}
+					if (options.maxItemCount) {
+						feedOptions.maxItemCount = options.maxItemCount;
+					}
+					if (options.continuationToken) {
+						feedOptions.continuationToken = options.continuationToken;
+					}
 
-					// Add each result as a separate item
-					for (const resource of resources) {
-						let processedResource = resource;
+					const queryIterator = container.items.query(querySpec, {
+						...getRequestOptions(this, itemIndex),
+						...feedOptions,
+					});
+					const processResource = (resource: IDataObject) =>
+						options.excludeVectorFields ? removeVectorFields(resource, options.vectorFieldNames) : resource;
 
-						// Remove vector fields if requested
-						if (options.excludeVectorFields) {
-							const vectorFields = (options.vectorFieldNames || 'vector,embedding,embeddings')
-								.split(',')
-								.map(f => f.trim())
-								.filter(f => f.length > 0);
+					if (options.singlePage) {
+						// Return one page and its continuation token so the caller can resume later
+						const page = await queryIterator.fetchNext();
+						collectResponseMetadata(responseMetadata, page);
+						const documents = (page.resources || []).map(processResource);
 
-							processedResource = { ...resource };
-							for (const field of vectorFields) {
-								delete processedResource[field];
+						returnData.push({
+							json: {
+								documents,
+								count: documents.length,
+								continuationToken: page.continuationToken ?? null,
+								hasMoreResults: Boolean(page.hasMoreResults),
+							},
+							pairedItem: itemIndex,
+						});
+					} else {
+						let resources: IDataObject[] = [];
+						if (returnAll) {
+							// Execute the SQL query
+							const response = await queryIterator.fetchAll();
+							collectResponseMetadata(responseMetadata, response);
+							resources = response.resources;
+						} else {
+							// Fetch page by page and stop as soon as the limit is reached
+							const limit = this.getNodeParameter('limit', itemIndex) as number;
+							while (resources.length < limit && queryIterator.hasMoreResults()) {
+								const page = await queryIterator.fetchNext();
+								collectResponseMetadata(responseMetadata, page);
+								resources.push(...(page.resources || []));
 							}
+							resources = resources.slice(0, limit);
+						}
+
+						// Add each result as a separate item
+						for (const resource of resources) {
+							returnData.push({
+								json: processResource(resource),
+								pairedItem: itemIndex,
+							});
+						}
+					}
+				} else if (operation === 'vectorSearch') {
+					// VECTOR SEARCH operation
+					const queryVector = parseQueryVector(this, this.getNodeParameter('queryVector', itemIndex), itemIndex);
+					const vectorPath = await resolvePolicyPath(
+						this,
+						client,
+						databaseName,
+						containerName,
+						this.getNodeParameter('vectorPath', itemIndex, '') as string,
+						'vector',
+						responseMetadata,
+						itemIndex,
+					);
+					const topK = this.getNodeParameter('topK', itemIndex, 10) as number;
+					const filter = (this.getNodeParameter('filter', itemIndex, '') as string).trim();
+					const projection = buildProjection(this, this.getNodeParameter('fields', itemIndex, '') as string, itemIndex);
+					const options = this.getNodeParameter('options', itemIndex, {}) as {
+						excludeVectorFields?: boolean;
+						vectorFieldNames?: string;
+					};
+
+					const vectorDistance = `VectorDistance(${toPropertyReference(vectorPath)}, @queryVector)`;
+					const querySpec = buildQuerySpec(
+						this,
+						`SELECT TOP ${Math.floor(topK)} ${projection}, ${vectorDistance} AS similarityScore FROM c` +
+							(filter ? ` WHERE ${filter}` : '') +
+							` ORDER BY ${vectorDistance}`,
+						itemIndex,
+						[{ name: '@queryVector', value: queryVector }],
+					);
+
+					const response = await container.items
+						.query(querySpec, {
+							...getRequestOptions(this, itemIndex),
+							populateQueryMetrics: responseMetadataMode !== 'none',
+							populateIndexMetrics: responseMetadataMode !== 'none',
+						})
+						.fetchAll();
+					collectResponseMetadata(responseMetadata, response);
+
+					for (const resource of response.resources as IDataObject[]) {
+						returnData.push({
+							json: formatSearchResult(resource, options, vectorPath),
+							pairedItem: itemIndex,
+						});
+					}
+				} else if (operation === 'hybridSearch') {
+					// HYBRID SEARCH operation
+					const hybridSearchMode = this.getNodeParameter('hybridSearchMode', itemIndex, 'hybrid') as string;
+					const searchText = this.getNodeParameter('searchText', itemIndex) as string;
+					const textPath = await resolvePolicyPath(
+						this,
+						client,
+						databaseName,
+						containerName,
+						this.getNodeParameter('textPath', itemIndex, '') as string,
+						'fullText',
+						responseMetadata,
+						itemIndex,
+					);
+					const topK = this.getNodeParameter('topK', itemIndex, 10) as number;
+					const filter = (this.getNodeParameter('filter', itemIndex, '') as string).trim();
+					const projection = buildProjection(this, this.getNodeParameter('fields', itemIndex, '') as string, itemIndex);
+					const options = this.getNodeParameter('options', itemIndex, {}) as {
+						excludeVectorFields?: boolean;
+						vectorFieldNames?: string;
+					};
+
+					const textField = toPropertyReference(textPath);
+					const terms = toSearchTermLiterals(this, searchText, itemIndex);
+					const fullTextScore = `FullTextScore(${textField}, ${terms.join(', ')})`;
+					const conditions: string[] = [];
+					const boundParameters: SqlParameter[] = [];
+					let rankExpression = fullTextScore;
+					let vectorPath: string | undefined;
+
+					if (hybridSearchMode === 'keyword') {
+						const keywordMatch = this.getNodeParameter('keywordMatch', itemIndex, 'any') as string;
+						if (keywordMatch === 'phrase') {
+							conditions.push(`FullTextContains(${textField}, ${JSON.stringify(searchText.trim())})`);
+						} else {
+							const containsFunction = keywordMatch === 'all' ? 'FullTextContainsAll' : 'FullTextContainsAny';
+							conditions.push(`${containsFunction}(${textField}, ${terms.join(', ')})`);
+						}
+					} else {
+						const queryVector = parseQueryVector(this, this.getNodeParameter('queryVector', itemIndex), itemIndex);
+						vectorPath = await resolvePolicyPath(
+							this,
+							client,
+							databaseName,
+							containerName,
+							this.getNodeParameter('vectorPath', itemIndex, '') as string,
+							'vector',
+							responseMetadata,
+							itemIndex,
+						);
+						const fullTextWeight = this.getNodeParameter('fullTextWeight', itemIndex, 1) as number;
+						const vectorWeight = this.getNodeParameter('vectorWeight', itemIndex, 1) as number;
+
+						boundParameters.push({ name: '@queryVector', value: queryVector });
+						rankExpression =
+							`RRF(${fullTextScore}, VectorDistance(${toPropertyReference(vectorPath)}, @queryVector), ` +
+							`[${fullTextWeight}, ${vectorWeight}])`;
+					}
+
+					if (filter) {
+						conditions.push(`(${filter})`);
+					}
+
+					const querySpec = buildQuerySpec(
+						this,
+						`SELECT TOP ${Math.floor(topK)} ${projection} FROM c` +
+							(conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '') +
+							` ORDER BY RANK ${rankExpression}`,
+						itemIndex,
+						boundParameters,
+					);
+
+					const response = await container.items
+						.query(querySpec, {
+							...getRequestOptions(this, itemIndex),
+							populateQueryMetrics: responseMetadataMode !== 'none',
+							populateIndexMetrics: responseMetadataMode !== 'none',
+						})
+						.fetchAll();
+					collectResponseMetadata(responseMetadata, response);
+
+					// Ranked queries cannot project a score, so report each document's position instead
+					(response.resources as IDataObject[]).forEach((resource, index) => {
+						returnData.push({
+							json: { ...formatSearchResult(resource, options, vectorPath), rank: index + 1 },
+							pairedItem: itemIndex,
+						});
+					});
+				} else if (operation === 'get') {
+					// GET operation (point read)
+					const documentId = this.getNodeParameter('documentId', itemIndex) as string;
+					const partitionKeyValue = getPartitionKeyValue(this, itemIndex);
+					const notFoundBehavior = this.getNodeParameter('notFoundBehavior', itemIndex, 'error') as string;
+
+					let resource: IDataObject | undefined;
+					try {
+						const response = await container
+							.item(documentId, partitionKeyValue)
+							.read(getRequestOptions(this, itemIndex));
+						collectResponseMetadata(responseMetadata, response);
+						resource = response.resource;
+					} catch (error) {
+						// Older SDK versions throw on 404 instead of returning an empty response
+						if ((error as { code?: number }).code !== 404) {
+							throw new NodeOperationError(this.getNode(), error as Error, {
+								itemIndex,
+							});
+						}
+					}
+
+					if (resource) {
+						returnData.push({
+							json: resource,
+							pairedItem: itemIndex,
+						});
+					} else {
+						pushNotFoundResult(
+							this,
+							returnData,
+							notFoundBehavior,
+							`Document with ID '${documentId}' and partition key '${formatPartitionKey(partitionKeyValue)}' not found`,
+							itemIndex,
+						);
+					}
+				} else if (operation === 'insert') {
+					// INSERT operation
+					const documentJson = this.getNodeParameter('document', itemIndex) as string;
+					const document = typeof documentJson === 'string' ? JSON.parse(documentJson) : documentJson;
+
+					if (!document.id) {
+						throw new NodeOperationError(this.getNode(), 'Document must include an ID field', {
+							itemIndex,
+						});
+					}
+
+					// Validate every partition key field exists
+					const partitionKeyPaths = await getPartitionKeyPathsForDocument(
+						client,
+						databaseName,
+						containerName,
+						document,
+						responseMetadata,
+					);
+					requireDocumentPartitionKey(this, document, partitionKeyPaths, itemIndex);
+
+					try {
+						// Insert the document
+						const response = await container.items.create(document, getWriteRequestOptions(this, itemIndex));
+						collectResponseMetadata(responseMetadata, response);
+						const { resource } = response;
+
+						if (!resource) {
+							throw new NodeOperationError(this.getNode(), 'Insert operation did not return a resource', {
+								itemIndex,
+							});
+						}
+
+						returnData.push({
+							json: resource,
+							pairedItem: itemIndex,
+						});
+					} catch (error) {
+						invalidateOnPartitionKeyMismatch(error, client, databaseName, containerName);
+						const cosmosError = error as { code?: number };
+						if (cosmosError.code === 409) {
+							throw new NodeOperationError(this.getNode(), `Document with ID '${document.id}' already exists. Use Create or Update operation to update existing documents.`, {
+								itemIndex,
+							});
+						}
+						throw new NodeOperationError(this.getNode(), error as Error, {
+							itemIndex,
+						});
+					}
+				} else if (operation === 'upsert') {
+					// UPSERT operation
+					const documentJson = this.getNodeParameter('document', itemIndex) as string;
+					const document = typeof documentJson === 'string' ? JSON.parse(documentJson) : documentJson;
+
+					if (!document.id) {
+						throw new NodeOperationError(this.getNode(), 'Document must include an ID field', {
+							itemIndex,
+						});
+					}
+
+					// Validate every partition key field exists
+					const partitionKeyPaths = await getPartitionKeyPathsForDocument(
+						client,
+						databaseName,
+						containerName,
+						document,
+						responseMetadata,
+					);
+					requireDocumentPartitionKey(this, document, partitionKeyPaths, itemIndex);
+
+					// Upsert the document (create or replace)
+					const requestOptions = getWriteRequestOptions(this, itemIndex, document);
+
+					try {
+						const response = await container.items.upsert(document, requestOptions);
+						collectResponseMetadata(responseMetadata, response);
+						const { resource } = response;
+
+						returnData.push({
+							json: resource || document,
+							pairedItem: itemIndex,
+						});
+					} catch (error) {
+						invalidateOnPartitionKeyMismatch(error, client, databaseName, containerName);
+						const cosmosError = error as { code?: number };
+						if (cosmosError.code === 412) {
+							throw new NodeOperationError(this.getNode(), preconditionFailedMessage(document.id), {
+								itemIndex,
+							});
+						}
+						throw new NodeOperationError(this.getNode(), error as Error, {
+							itemIndex,
+						});
+					}
+				} else if (operation === 'replace') {
+					// REPLACE operation
+					const documentJson = this.getNodeParameter('document', itemIndex) as string;
+					const document = typeof documentJson === 'string' ? JSON.parse(documentJson) : documentJson;
+
+					if (!document.id) {
+						throw new NodeOperationError(this.getNode(), 'Document must include an ID field', {
+							itemIndex,
+						});
+					}
+
+					// Validate every partition key field exists
+					const partitionKeyPaths = await getPartitionKeyPathsForDocument(
+						client,
+						databaseName,
+						containerName,
+						document,
+						responseMetadata,
+					);
+					const partitionKey = requireDocumentPartitionKey(this, document, partitionKeyPaths, itemIndex);
+
+					const requestOptions = getWriteRequestOptions(this, itemIndex, document);
+
+					try {
+						const response = await container
+							.item(document.id, partitionKey)
+							.replace(document, requestOptions);
+						collectResponseMetadata(responseMetadata, response);
+
+						returnData.push({
+							json: response.resource || document,
+							pairedItem: itemIndex,
+						});
+					} catch (error) {
+						invalidateOnPartitionKeyMismatch(error, client, databaseName, containerName);
+						const cosmosError = error as { code?: number };
+						if (cosmosError.code === 404) {
+							throw new NodeOperationError(this.getNode(), `Document with ID '${document.id}' not found. Use Insert or Create or Update to create it.`, {
+								itemIndex,
+							});
 						}
+						if (cosmosError.code === 412) {
+							throw new NodeOperationError(this.getNode(), preconditionFailedMessage(document.id), {
+								itemIndex,
+							});
+						}
+						throw new NodeOperationError(this.getNode(), error as Error, {
+							itemIndex,
+						});
+					}
+				} else if (operation === 'patch') {
+					// PATCH operation
+					const documentId = this.getNodeParameter('documentId', itemIndex) as string;
+					const partitionKeyValue = getPartitionKeyValue(this, itemIndex);
+					const patchCondition = (this.getNodeParameter('patchCondition', itemIndex, '') as string).trim();
+					const operations = buildPatchOperations(this, itemIndex);
+					const requestOptions = getWriteRequestOptions(this, itemIndex, items[itemIndex].json);
+
+					try {
+						const response = await container
+							.item(documentId, partitionKeyValue)
+							.patch(patchCondition ? { condition: patchCondition, operations } : operations, requestOptions);
+						collectResponseMetadata(responseMetadata, response);
 
 						returnData.push({
-							json: processedResource,
+							json: response.resource,
 							pairedItem: itemIndex,
 						});
+					} catch (error) {
+						const cosmosError = error as { code?: number };
+						if (cosmosError.code === 404) {
+							throw new NodeOperationError(this.getNode(), `Document with ID '${documentId}' and partition key '${formatPartitionKey(partitionKeyValue)}' not found`, {
+								itemIndex,
+							});
+						}
+						if (cosmosError.code === 412 && requestOptions?.accessCondition) {
+							throw new NodeOperationError(this.getNode(), preconditionFailedMessage(documentId, Boolean(patchCondition)), {
+								itemIndex,
+							});
+						}
+						if (cosmosError.code === 412) {
+							throw new NodeOperationError(this.getNode(), `Document with ID '${documentId}' does not match the patch condition. No changes were made.`, {
+								itemIndex,
+							});
+						}
+						throw new NodeOperationError(this.getNode(), error as Error, {
+							itemIndex,
+						});
+					}
+				} else if (operation === 'transactionalBatch') {
+					// TRANSACTIONAL BATCH operation
+					const partitionKeyValue = getPartitionKeyValue(this, itemIndex);
+					const batchJson = this.getNodeParameter('batchOperations', itemIndex) as string | IDataObject[];
+					const rawOperations = typeof batchJson === 'string' ? JSON.parse(batchJson) : batchJson;
+
+					if (!Array.isArray(rawOperations) || rawOperations.length === 0) {
+						throw new NodeOperationError(this.getNode(), 'Batch Operations must be a non-empty JSON array', {
+							itemIndex,
+						});
 					}
-				} else if (operation === 'insert') {
-					// INSERT operation
-					const documentJson = this.getNodeParameter('document', itemIndex) as string;
-					const document = typeof documentJson === 'string' ? JSON.parse(documentJson) : documentJson;
 
-					if (!document.id) {
-						throw new NodeOperationError(this.getNode(), 'Document must include an ID field', {
+					const operations = rawOperations.map((rawOperation: IDataObject, index: number) =>
+						normalizeBatchOperation(this, rawOperation, `Batch operation ${index}`, itemIndex),
+					);
+					const { results, failedIndex } = await runTransactionalBatch(
+						this,
+						container,
+						operations,
+						partitionKeyValue,
+						responseMetadata,
+						itemIndex,
+					);
+
+					if (failedIndex !== undefined) {
+						throw new NodeOperationError(this.getNode(), batchRollbackMessage(results, failedIndex), {
 							itemIndex,
 						});
 					}
 
-					// Get container properties to determine partition key path
-					const containerDef = await container.read();
-					const partitionKeyPath = containerDef.resource?.partitionKey?.paths?.[0]?.replace('/', '') || 'id';
+					returnData.push({
+						json: {
+							success: true,
+							partitionKey: partitionKeyValue,
+							operationCount: results.length,
+							operations: results,
+						},
+						pairedItem: itemIndex,
+					});
+				} else if (operation === 'executeStoredProcedure') {
+					// EXECUTE STORED PROCEDURE operation
+					const scriptId = this.getNodeParameter('scriptId', itemIndex) as string;
+					const partitionKeyValue = getPartitionKeyValue(this, itemIndex);
+					const parametersJson = this.getNodeParameter('storedProcedureParameters', itemIndex, '[]') as string | unknown[];
+					const parameters = typeof parametersJson === 'string'
+						? JSON.parse(parametersJson || '[]')
+						: parametersJson;
 
-					// Validate partition key field exists
-					if (!Object.prototype.hasOwnProperty.call(document, partitionKeyPath)) {
-						throw new NodeOperationError(this.getNode(),
-							`Document must include the partition key field '${partitionKeyPath}'. Add this field to your document.`,
-							{ itemIndex }
-						);
+					if (!Array.isArray(parameters)) {
+						throw new NodeOperationError(this.getNode(), 'Stored Procedure Parameters must be a JSON array', {
+							itemIndex,
+						});
 					}
 
 					try {
-						// Insert the document
-						const { resource } = await container.items.create(document);
-
-						if (!resource) {
-							throw new NodeOperationError(this.getNode(), 'Insert operation did not return a resource', {
-								itemIndex,
-							});
-						}
+						const response = await container.scripts
+							.storedProcedure(scriptId)
+							.execute(partitionKeyValue, parameters, getRequestOptions(this, itemIndex));
+						collectResponseMetadata(responseMetadata, response);
 
 						returnData.push({
-							json: resource,
+							json: {
+								storedProcedureId: scriptId,
+								result: response.resource ?? null,
+							},
 							pairedItem: itemIndex,
 						});
 					} catch (error) {
 						const cosmosError = error as { code?: number };
-						if (cosmosError.code === 409) {
-							throw new NodeOperationError(this.getNode(), `Document with ID '${document.id}' already exists. Use Create or Update operation to update existing documents.`, {
+						if (cosmosError.code === 404) {
+							throw new NodeOperationError(this.getNode(), `Stored procedure '${scriptId}' not found in container '${containerName}'`, {
 								itemIndex,
 							});
 						}
@@ -892,36 +4934,75 @@ export class AzureCosmosSdk implements INodeType {
 							itemIndex,
 						});
 					}
-				} else if (operation === 'upsert') {
-					// UPSERT operation
-					const documentJson = this.getNodeParameter('document', itemIndex) as string;
-					const document = typeof documentJson === 'string' ? JSON.parse(documentJson) : documentJson;
+				} else if (['createScript', 'replaceScript', 'listScripts', 'deleteScript'].includes(operation)) {
+					// SCRIPT MANAGEMENT operations (stored procedures, UDFs, triggers)
+					const scriptType = this.getNodeParameter('scriptType', itemIndex) as string;
+					const scriptsApi = getScriptsApi(container, scriptType);
 
-					if (!document.id) {
-						throw new NodeOperationError(this.getNode(), 'Document must include an ID field', {
-							itemIndex,
-						});
-					}
+					if (operation === 'listScripts') {
+						const response = await scriptsApi.collection.readAll().fetchAll();
+						collectResponseMetadata(responseMetadata, response);
 
-					// Get container properties to determine partition key path
-					const containerDef = await container.read();
-					const partitionKeyPath = containerDef.resource?.partitionKey?.paths?.[0]?.replace('/', '') || 'id';
+						for (const resource of response.resources) {
+							returnData.push({
+								json: { scriptType, ...resource },
+								pairedItem: itemIndex,
+							});
+						}
+					} else {
+						const scriptId = this.getNodeParameter('scriptId', itemIndex) as string;
 
-					// Validate partition key field exists
-					if (!Object.prototype.hasOwnProperty.call(document, partitionKeyPath)) {
-						throw new NodeOperationError(this.getNode(),
-							`Document must include the partition key field '${partitionKeyPath}'. Add this field to your document.`,
-							{ itemIndex }
-						);
-					}
+						try {
+							if (operation === 'deleteScript') {
+								const response = await scriptsApi.item(scriptId).delete();
+								collectResponseMetadata(responseMetadata, response);
 
-					// Upsert the document (create or replace)
-					const { resource } = await container.items.upsert(document);
+								returnData.push({
+									json: {
+										success: true,
+										scriptType,
+										scriptId,
+										message: `${scriptsApi.label} '${scriptId}' deleted successfully`,
+									},
+									pairedItem: itemIndex,
+								});
+							} else {
+								const definition: IDataObject = {
+									id: scriptId,
+									body: this.getNodeParameter('scriptBody', itemIndex) as string,
+								};
+								if (scriptType === 'trigger') {
+									definition.triggerType = this.getNodeParameter('triggerType', itemIndex) as string;
+									definition.triggerOperation = this.getNodeParameter('triggerOperation', itemIndex) as string;
+								}
 
-					returnData.push({
-						json: resource || document,
-						pairedItem: itemIndex,
-					});
+								const response = operation === 'createScript'
+									? await scriptsApi.collection.create(definition)
+									: await scriptsApi.item(scriptId).replace(definition);
+								collectResponseMetadata(responseMetadata, response);
+
+								returnData.push({
+									json: { scriptType, ...response.resource },
+									pairedItem: itemIndex,
+								});
+							}
+						} catch (error) {
+							const cosmosError = error as { code?: number };
+							if (cosmosError.code === 404) {
+								throw new NodeOperationError(this.getNode(), `${scriptsApi.label} '${scriptId}' not found in container '${containerName}'`, {
+									itemIndex,
+								});
+							}
+							if (cosmosError.code === 409) {
+								throw new NodeOperationError(this.getNode(), `${scriptsApi.label} '${scriptId}' already exists in container '${containerName}'. Use Replace Script to update it.`, {
+									itemIndex,
+								});
+							}
+							throw new NodeOperationError(this.getNode(), error as Error, {
+								itemIndex,
+							});
+						}
+					}
 				} else if (operation === 'delete') {
 					// DELETE operation
 					const deleteMode = this.getNodeParameter('deleteMode', itemIndex) as string;
@@ -929,11 +5010,13 @@ export class AzureCosmosSdk implements INodeType {
 					if (deleteMode === 'byId') {
 						// Delete by ID and partition key
 						const documentId = this.getNodeParameter('documentId', itemIndex) as string;
-						const partitionKeyValue = this.getNodeParameter('partitionKeyValue', itemIndex) as string;
+						const partitionKeyValue = getPartitionKeyValue(this, itemIndex);
+						const requestOptions = getWriteRequestOptions(this, itemIndex, items[itemIndex].json);
 
 						try {
-							await container.item(documentId, partitionKeyValue).delete();
-							
+							const response = await container.item(documentId, partitionKeyValue).delete(requestOptions);
+							collectResponseMetadata(responseMetadata, response);
+
 							returnData.push({
 								json: {
 									success: true,
@@ -947,7 +5030,12 @@ export class AzureCosmosSdk implements INodeType {
 						} catch (error) {
 							const cosmosError = error as { code?: number };
 							if (cosmosError.code === 404) {
-								throw new NodeOperationError(this.getNode(), `Document with ID '${documentId}' and partition key '${partitionKeyValue}' not found`, {
+								throw new NodeOperationError(this.getNode(), `Document with ID '${documentId}' and partition key '${formatPartitionKey(partitionKeyValue)}' not found`, {
+									itemIndex,
+								});
+							}
+							if (cosmosError.code === 412) {
+								throw new NodeOperationError(this.getNode(), preconditionFailedMessage(documentId), {
 									itemIndex,
 								});
 							}
@@ -955,85 +5043,41 @@ export class AzureCosmosSdk implements INodeType {
 								itemIndex,
 							});
 						}
-					} else {
-						// Delete by query
-						const deleteQuery = this.getNodeParameter('deleteQuery', itemIndex) as string;
+					} else if (deleteMode === 'byPartitionKey') {
+						// Delete every document of one logical partition on the server
+						const partitionKeyValue = getPartitionKeyValue(this, itemIndex);
 
-						// Execute the query to get documents to delete
-						const { resources } = await container.items.query(deleteQuery).fetchAll();
+						try {
+							const response = await container.deleteAllItemsForPartitionKey(
+								partitionKeyValue,
+								getRequestOptions(this, itemIndex),
+							);
+							collectResponseMetadata(responseMetadata, response);
 
-						// Handle case where no documents match the query
-						if (!resources || resources.length === 0) {
 							returnData.push({
 								json: {
 									success: true,
-									deletedCount: 0,
-									totalQueried: 0,
-									deletedIds: [],
-									message: 'No documents matched the query',
+									partitionKeyValue,
+									message: `Deletion of all documents with partition key '${formatPartitionKey(partitionKeyValue)}' was accepted and runs in the background`,
 								},
 								pairedItem: itemIndex,
 							});
-							continue;
-						}
-
-						let deletedCount = 0;
-						const deletedIds: string[] = [];
-						const errors: Array<{id: string, error: string}> = [];
-
-						// Get container properties to determine partition key path
-						const containerDef = await container.read();
-						const partitionKeyPath = containerDef.resource?.partitionKey?.paths?.[0]?.replace('/', '') || 'id';
-
-						// Check if query includes partition key field
-						if (resources.length > 0 && !Object.prototype.hasOwnProperty.call(resources[0], partitionKeyPath)) {
-							throw new NodeOperationError(this.getNode(),
-								`Query must include the partition key field '${partitionKeyPath}'. ` +
-								`Use: SELECT * FROM c WHERE ... or SELECT c.id, c.${partitionKeyPath} FROM c WHERE ...`,
-								{ itemIndex }
-							);
-						}
-
-						// Delete each document
-						for (const resource of resources) {
-							if (!resource.id) {
-								errors.push({ id: 'unknown', error: 'Document missing id field' });
-								continue;
-							}
-
-							// Get the partition key value from the document
-							const partitionKeyValue = resource[partitionKeyPath];
-							
-							if (partitionKeyValue === undefined) {
-								errors.push({ 
-									id: resource.id, 
-									error: `Missing partition key field '${partitionKeyPath}' in query results. Use SELECT * or include c.${partitionKeyPath} in SELECT clause.`
-								});
-								continue;
-							}
-
-							try {
-								await container.item(resource.id, partitionKeyValue).delete();
-								deletedCount++;
-								deletedIds.push(resource.id);
-							} catch (error) {
-								const err = error as Error;
-								errors.push({
-									id: resource.id,
-									error: err.message || String(error)
-								});
-							}
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error as Error, {
+								itemIndex,
+							});
 						}
-
+					} else {
+						// Delete by query
 						returnData.push({
-							json: {
-								success: errors.length === 0,
-								deletedCount,
-								totalQueried: resources.length,
-								deletedIds,
-								errors: errors.length > 0 ? errors : undefined,
-								message: `Successfully deleted ${deletedCount} of ${resources.length} document(s)`,
-							},
+							json: await deleteDocumentsByQuery(
+								this,
+								client,
+								databaseName,
+								containerName,
+								itemIndex,
+								responseMetadata,
+							),
 							pairedItem: itemIndex,
 						});
 					}
@@ -1043,17 +5087,28 @@ export class AzureCosmosSdk implements INodeType {
 				if (operation === 'createDatabase') {
 					// CREATE DATABASE operation
 					const newDatabaseName = this.getNodeParameter('newDatabaseName', itemIndex) as string;
-					const databaseThroughput = this.getNodeParameter('databaseThroughput', itemIndex) as number;
+					const throughputMode = this.getNodeParameter('throughputMode', itemIndex, 'manual') as string;
+					const databaseThroughput = throughputMode === 'manual'
+						? this.getNodeParameter('databaseThroughput', itemIndex) as number
+						: 0;
+					const autoscaleMaxThroughput = throughputMode === 'autoscale'
+						? getAutoscaleMaxThroughput(this, itemIndex)
+						: 0;
 
 					try {
 						const dbOptions: any = { id: newDatabaseName };
 						
-						// Add throughput if specified (minimum 400 RU/s)
+						// Add throughput if specified (minimum 400 RU/s, or 1000 RU/s for autoscale)
 						if (databaseThroughput && databaseThroughput >= 400) {
 							dbOptions.throughput = databaseThroughput;
 						}
+						if (autoscaleMaxThroughput) {
+							dbOptions.maxThroughput = autoscaleMaxThroughput;
+						}
 
-						const { statusCode, database } = await (client as any).databases.createIfNotExists(dbOptions);
+						const response = await (client as any).databases.createIfNotExists(dbOptions);
+						collectResponseMetadata(responseMetadata, response);
+						const { statusCode, database } = response;
 
 						returnData.push({
 							json: {
@@ -1061,6 +5116,7 @@ export class AzureCosmosSdk implements INodeType {
 								statusCode,
 								databaseId: database.id,
 								throughput: databaseThroughput || 'serverless/container-level',
+								...(autoscaleMaxThroughput ? { throughput: 'autoscale', autoscaleMaxThroughput } : {}),
 								message: statusCode === 201 
 									? `Database '${newDatabaseName}' created successfully`
 									: `Database '${newDatabaseName}' already exists`,
@@ -1078,7 +5134,30 @@ export class AzureCosmosSdk implements INodeType {
 					const dbName = database;
 					const newContainerName = this.getNodeParameter('newContainerName', itemIndex) as string;
 					const partitionKeyPath = this.getNodeParameter('partitionKeyPath', itemIndex) as string;
-					const containerThroughput = this.getNodeParameter('containerThroughput', itemIndex) as number;
+					const partitionKeyPaths = partitionKeyPath
+						.split(',')
+						.map((path) => path.trim())
+						.filter((path) => path.length > 0);
+
+					if (partitionKeyPaths.length === 0 || partitionKeyPaths.length > 3) {
+						throw new NodeOperationError(this.getNode(),
+							`Partition Key Path must contain between one and three paths, got ${partitionKeyPaths.length}`,
+							{ itemIndex }
+						);
+					}
+					const invalidPath = partitionKeyPaths.find((path) => !path.startsWith('/'));
+					if (invalidPath) {
+						throw new NodeOperationError(this.getNode(), `Partition key path '${invalidPath}' must start with /`, {
+							itemIndex,
+						});
+					}
+					const throughputMode = this.getNodeParameter('throughputMode', itemIndex, 'manual') as string;
+					const containerThroughput = throughputMode === 'manual'
+						? this.getNodeParameter('containerThroughput', itemIndex) as number
+						: 0;
+					const autoscaleMaxThroughput = throughputMode === 'autoscale'
+						? getAutoscaleMaxThroughput(this, itemIndex)
+						: 0;
 					const enableVectorIndex = this.getNodeParameter('enableVectorIndex', itemIndex) as boolean;
 					const enableFullTextIndex = this.getNodeParameter('enableFullTextIndex', itemIndex) as boolean;
 
@@ -1086,12 +5165,12 @@ export class AzureCosmosSdk implements INodeType {
 						const database = client.database(dbName);
 						
 						// Build container definition
-						const containerDef: any = {
+						let containerDef: any = {
 							id: newContainerName,
-							partitionKey: {
-								paths: [partitionKeyPath],
-								kind: 'Hash',
-							},
+							// More than one path creates a hierarchical (subpartitioned) partition key
+							partitionKey: partitionKeyPaths.length > 1
+								? { paths: partitionKeyPaths, kind: 'MultiHash', version: 2 }
+								: { paths: partitionKeyPaths, kind: 'Hash' },
 						};
 
 						// Build indexing policy
@@ -1152,11 +5231,16 @@ export class AzureCosmosSdk implements INodeType {
 								.filter(p => p.length > 0);
 
 							// Add full-text policy at container level
+							const fullTextLanguage = this.getNodeParameter(
+								'containerPolicies.fullTextDefaultLanguage',
+								itemIndex,
+								'en-US',
+							) as string;
 							containerDef.fullTextPolicy = {
-								defaultLanguage: 'en-US',
+								defaultLanguage: fullTextLanguage,
 								fullTextPaths: paths.map(path => ({
 									path: path,
-									language: 'en-US',
+									language: fullTextLanguage,
 								})),
 							};
 
@@ -1172,26 +5256,50 @@ export class AzureCosmosSdk implements INodeType {
 							}
 						}
 
+						applyContainerPolicies(this, containerDef, indexingPolicy, dbName, itemIndex);
 						containerDef.indexingPolicy = indexingPolicy;
 
-						// Add throughput if specified
-						const createOptions: any = {};
+						// Add throughput if specified; the SDK reads it from the container definition
 						if (containerThroughput && containerThroughput >= 400) {
-							createOptions.throughput = containerThroughput;
+							containerDef.throughput = containerThroughput;
+						}
+						if (autoscaleMaxThroughput) {
+							containerDef.maxThroughput = autoscaleMaxThroughput;
 						}
 
-						const { statusCode, container: newContainer } = await database.containers.createIfNotExists(
-							containerDef,
-							createOptions,
-						);
+						// Raw JSON extends or overrides what the form fields built
+						const definitionMode = this.getNodeParameter('containerDefinitionMode', itemIndex, 'form') as string;
+						if (definitionMode === 'json') {
+							const rawDefinition = convertTypedValue(
+								this,
+								'Container Definition (JSON)',
+								'object',
+								this.getNodeParameter('containerDefinitionJson', itemIndex, '{}'),
+								itemIndex,
+							) as IDataObject;
+							if (rawDefinition.id !== undefined && rawDefinition.id !== newContainerName) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`The id in Container Definition (JSON) must match the New Container Name '${newContainerName}'`,
+									{ itemIndex },
+								);
+							}
+							containerDef = mergeContainerDefinition(containerDef, rawDefinition);
+						}
+						validateContainerDefinition(containerDef);
+
+						const response = await database.containers.createIfNotExists(containerDef);
+						collectResponseMetadata(responseMetadata, response);
+						const { statusCode, container: newContainer } = response;
 
 						const responseData: any = {
 							success: true,
 							statusCode,
 							containerId: newContainer.id,
 							databaseId: dbName,
-							partitionKey: partitionKeyPath,
+							partitionKey: partitionKeyPaths.length > 1 ? partitionKeyPaths : partitionKeyPaths[0],
 							throughput: containerThroughput || 'inherited/serverless',
+							...(autoscaleMaxThroughput ? { throughput: 'autoscale', autoscaleMaxThroughput } : {}),
 						};
 
 						if (enableVectorIndex) {
@@ -1213,6 +5321,9 @@ export class AzureCosmosSdk implements INodeType {
 							};
 						}
 
+						// The definition as stored, including the policies Cosmos DB filled in
+						responseData.definition = response.resource ?? containerDef;
+
 						responseData.message = statusCode === 201
 							? `Container '${newContainerName}' created successfully in database '${dbName}'`
 							: `Container '${newContainerName}' already exists in database '${dbName}'`;
@@ -1240,7 +5351,8 @@ export class AzureCosmosSdk implements INodeType {
 
 					try {
 						const database = client.database(databaseToDelete);
-						await database.delete();
+						const response = await database.delete();
+						collectResponseMetadata(responseMetadata, response);
 
 						returnData.push({
 							json: {
@@ -1263,6 +5375,71 @@ export class AzureCosmosSdk implements INodeType {
 					}
 				}
 
+				if (operation === 'getThroughput' || operation === 'replaceThroughput') {
+					// GET / REPLACE THROUGHPUT operations
+					const throughputScope = this.getNodeParameter('throughputScope', itemIndex, 'container') as string;
+					const databaseName = this.getNodeParameter('databaseForContainerDelete', itemIndex, '', { extractValue: true }) as string;
+					const containerName = throughputScope === 'container'
+						? this.getNodeParameter('containerToDelete', itemIndex, '', { extractValue: true }) as string
+						: undefined;
+					const target = containerName
+						? `Container '${containerName}'`
+						: `Database '${databaseName}'`;
+					const identifiers: IDataObject = containerName
+						? { databaseId: databaseName, containerId: containerName }
+						: { databaseId: databaseName };
+
+					try {
+						const database = client.database(databaseName);
+						const offerResponse = containerName
+							? await database.container(containerName).readOffer()
+							: await database.readOffer();
+						collectResponseMetadata(responseMetadata, offerResponse);
+						const offer = offerResponse.resource as IDataObject | undefined;
+
+						if (!offer) {
+							const message = containerName
+								? `${target} has no throughput of its own. It shares the database's throughput, or the account is serverless.`
+								: `${target} has no shared throughput. Its containers have their own throughput, or the account is serverless.`;
+							if (operation === 'replaceThroughput') {
+								throw new NodeOperationError(this.getNode(), message, { itemIndex });
+							}
+
+							returnData.push({
+								json: { ...identifiers, throughputMode: 'none', message },
+								pairedItem: itemIndex,
+							});
+						} else {
+							// Reading the offer itself also reports the minimum it can be scaled down to
+							const response = operation === 'getThroughput'
+								? await client.offer(offer.id as string).read()
+								: await client.offer(offer.id as string).replace({
+									...offer,
+									content: getReplacedOfferContent(this, offer, target, throughputScope, itemIndex),
+								});
+							collectResponseMetadata(responseMetadata, response);
+
+							returnData.push({
+								json: {
+									...identifiers,
+									...formatThroughputOffer((response.resource ?? offer) as IDataObject, (response.headers ?? {}) as IDataObject),
+								},
+								pairedItem: itemIndex,
+							});
+						}
+					} catch (error) {
+						const cosmosError = error as { code?: number };
+						if (cosmosError.code === 404) {
+							throw new NodeOperationError(this.getNode(), `${target} not found`, {
+								itemIndex,
+							});
+						}
+						throw new NodeOperationError(this.getNode(), error as Error, {
+							itemIndex,
+						});
+					}
+				}
+
 				if (operation === 'deleteContainer') {
 					// DELETE CONTAINER operation
 					const databaseName = this.getNodeParameter('databaseForContainerDelete', itemIndex, '', { extractValue: true }) as string;
@@ -1271,7 +5448,9 @@ export class AzureCosmosSdk implements INodeType {
 					try {
 						const database = client.database(databaseName);
 						const container = database.container(containerToDelete);
-						await container.delete();
+						const response = await container.delete();
+						collectResponseMetadata(responseMetadata, response);
+						invalidateContainerDefinition(client, databaseName, containerToDelete);
 
 						returnData.push({
 							json: {
@@ -1294,6 +5473,84 @@ export class AzureCosmosSdk implements INodeType {
 						});
 					}
 				}
+
+				if (operation === 'getContainer' || operation === 'updateContainer') {
+					// GET / UPDATE CONTAINER operations
+					const databaseName = this.getNodeParameter('databaseForContainerDelete', itemIndex, '', { extractValue: true }) as string;
+					const containerName = this.getNodeParameter('containerToDelete', itemIndex, '', { extractValue: true }) as string;
+
+					try {
+						const container = client.database(databaseName).container(containerName);
+						const current = await readContainerWithProgress(container);
+						collectResponseMetadata(responseMetadata, current.response);
+						let { definition, indexTransformationProgress } = current;
+
+						if (operation === 'updateContainer') {
+							const waitForIndexing = this.getNodeParameter('waitForIndexing', itemIndex, false) as boolean;
+							const indexingTimeout = waitForIndexing
+								? this.getNodeParameter('indexingTimeout', itemIndex, 300) as number
+								: 0;
+
+							const response = await container.replace(getUpdatedContainerDefinition(this, definition, itemIndex));
+							collectResponseMetadata(responseMetadata, response);
+							invalidateContainerDefinition(client, databaseName, containerName);
+
+							// Re-indexing starts after the replace returns, so its progress is read separately
+							const deadline = Date.now() + indexingTimeout * 1000;
+							for (;;) {
+								const updated = await readContainerWithProgress(container);
+								collectResponseMetadata(responseMetadata, updated.response);
+								({ definition, indexTransformationProgress } = updated);
+
+								if (!waitForIndexing || indexTransformationProgress === null || indexTransformationProgress >= 100) {
+									break;
+								}
+								if (Date.now() >= deadline) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`Container '${containerName}' was updated, but re-indexing was only ${indexTransformationProgress}% done after ${indexingTimeout} seconds`,
+										{
+											itemIndex,
+											description: 'Re-indexing continues in the background. Use Get Container to follow its progress.',
+										},
+									);
+								}
+								await sleep(Math.min(INDEX_PROGRESS_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)));
+							}
+						}
+
+						returnData.push({
+							json: {
+								databaseId: databaseName,
+								containerId: containerName,
+								...formatContainerDefinition(definition, indexTransformationProgress),
+							},
+							pairedItem: itemIndex,
+						});
+					} catch (error) {
+						const cosmosError = error as { code?: number };
+						if (cosmosError.code === 404) {
+							throw new NodeOperationError(this.getNode(), `Container '${containerName}' not found in database '${databaseName}'`, {
+								itemIndex,
+							});
+						}
+						throw new NodeOperationError(this.getNode(), error as Error, {
+							itemIndex,
+						});
+					}
+				}
+
+				if (responseMetadataMode !== 'none') {
+					await appendResponseMetadata(
+						client,
+						returnData,
+						outputStart,
+						responseMetadataMode,
+						responseMetadata,
+						startTime,
+						itemIndex,
+					);
+				}
 			} catch (error) {
 				if (this.continueOnFail()) {
 					returnData.push({
@@ -1313,239 +5570,16 @@ export class AzureCosmosSdk implements INodeType {
 
 	methods = {
 		listSearch: {
-			async getDatabases(
-				this: ILoadOptionsFunctions,
-				filter?: string,
-			): Promise<INodeListSearchResult> {
-				const authenticationType = this.getNodeParameter('authenticationType', 0) as string;
-				let client: CosmosClient;
-
-				try {
-					if (authenticationType === 'entraId') {
-						// Use Entra ID authentication
-						const credentials = await this.getCredentials('azureCosmosSdkEntraIdApi');
-						const endpoint = credentials.endpoint as string;
-						const oauthTokenData = credentials.oauthTokenData as any;
-						const refreshBeforeExpirySeconds = (credentials.refreshBeforeExpirySeconds as number) || 900;
-
-						if (!oauthTokenData?.access_token) {
-							throw new Error('No valid access token available. Please re-authenticate.');
-						}
-
-						// Check and refresh token proactively if needed
-						await checkAndRefreshToken(
-							this,
-							'azureCosmosSdkEntraIdApi',
-							endpoint,
-							oauthTokenData,
-							refreshBeforeExpirySeconds,
-						);
-
-						const tokenCredential: TokenCredential = {
-							getToken: async () => ({
-								token: oauthTokenData.access_token,
-								expiresOnTimestamp: oauthTokenData.expires_at 
-									? new Date(oauthTokenData.expires_at).getTime() 
-									: Date.now() + 3600000,
-							}),
-						};
-
-						client = new CosmosClient({
-							endpoint,
-							aadCredentials: tokenCredential,
-						});
-					} else {
-						// Use master key authentication
-						const credentials = await this.getCredentials('azureCosmosSdkApi');
-						const endpoint = credentials.endpoint as string;
-						const key = credentials.key as string;
-						client = new CosmosClient({ endpoint, key });
-					}
-
-					// Fetch databases using the SDK
-					const { resources: databases } = await (client as any).databases.readAll().fetchAll();
-
-					// Map databases to options format
-					let results: INodePropertyOptions[] = databases.map((db: any) => ({
-						name: db.id,
-						value: db.id,
-					}));
-
-					// Apply filter if provided
-					if (filter) {
-						const filterLower = filter.toLowerCase();
-						results = results.filter((db) => db.name.toLowerCase().includes(filterLower));
-					}
-
-					return {
-						results: results.sort((a, b) => a.name.localeCompare(b.name)),
-					};
-				} catch (error) {
-					throw new Error(`Failed to load databases: ${error.message}`);
-				}
-			},
+			getDatabases: searchDatabases,
 			async getContainers(
 				this: ILoadOptionsFunctions,
 				filter?: string,
 			): Promise<INodeListSearchResult> {
-				const authenticationType = this.getNodeParameter('authenticationType', 0) as string;
-				let client: CosmosClient;
-
-				try {
-					if (authenticationType === 'entraId') {
-						// Use Entra ID authentication
-						const credentials = await this.getCredentials('azureCosmosSdkEntraIdApi');
-						const endpoint = credentials.endpoint as string;
-						const oauthTokenData = credentials.oauthTokenData as any;
-						const refreshBeforeExpirySeconds = (credentials.refreshBeforeExpirySeconds as number) || 900;
-
-						if (!oauthTokenData?.access_token) {
-							throw new Error('No valid access token available. Please re-authenticate.');
-						}
-
-						// Check and refresh token proactively if needed
-						await checkAndRefreshToken(
-							this,
-							'azureCosmosSdkEntraIdApi',
-							endpoint,
-							oauthTokenData,
-							refreshBeforeExpirySeconds,
-						);
-
-						const tokenCredential: TokenCredential = {
-							getToken: async () => ({
-								token: oauthTokenData.access_token,
-								expiresOnTimestamp: oauthTokenData.expires_at 
-									? new Date(oauthTokenData.expires_at).getTime() 
-									: Date.now() + 3600000,
-							}),
-						};
-
-						client = new CosmosClient({
-							endpoint,
-							aadCredentials: tokenCredential,
-						});
-					} else {
-						// Use master key authentication
-						const credentials = await this.getCredentials('azureCosmosSdkApi');
-						const endpoint = credentials.endpoint as string;
-						const key = credentials.key as string;
-						client = new CosmosClient({ endpoint, key });
-					}
-
-					// Get the selected database name
-					const databaseParam = this.getNodeParameter('databaseForContainerDelete', 0) as any;
-					const databaseName = typeof databaseParam === 'string' ? databaseParam : (databaseParam?.value || '');
-					
-					if (!databaseName) {
-						return { results: [] };
-					}
-
-					const database = client.database(databaseName);
-
-					// Fetch containers using the SDK
-					const { resources: containers } = await database.containers.readAll().fetchAll();
-
-					// Map containers to options format
-					let results: INodePropertyOptions[] = containers.map((container: any) => ({
-						name: container.id,
-						value: container.id,
-					}));
-
-					// Apply filter if provided
-					if (filter) {
-						const filterLower = filter.toLowerCase();
-						results = results.filter((c) => c.name.toLowerCase().includes(filterLower));
-					}
-
-					return {
-						results: results.sort((a, b) => a.name.localeCompare(b.name)),
-					};
-				} catch (error) {
-					throw new Error(`Failed to load containers: ${error.message}`);
-				}
-			},
-			async getContainersForDocOps(
-				this: ILoadOptionsFunctions,
-				filter?: string,
-			): Promise<INodeListSearchResult> {
-				const authenticationType = this.getNodeParameter('authenticationType', 0) as string;
-				let client: CosmosClient;
-
-				try {
-					if (authenticationType === 'entraId') {
-						// Use Entra ID authentication
-						const credentials = await this.getCredentials('azureCosmosSdkEntraIdApi');
-						const endpoint = credentials.endpoint as string;
-						const oauthTokenData = credentials.oauthTokenData as any;
-						const refreshBeforeExpirySeconds = (credentials.refreshBeforeExpirySeconds as number) || 900;
-
-						if (!oauthTokenData?.access_token) {
-							throw new Error('No valid access token available. Please re-authenticate.');
-						}
-
-						// Check and refresh token proactively if needed
-						await checkAndRefreshToken(
-							this,
-							'azureCosmosSdkEntraIdApi',
-							endpoint,
-							oauthTokenData,
-							refreshBeforeExpirySeconds,
-						);
-
-						const tokenCredential: TokenCredential = {
-							getToken: async () => ({
-								token: oauthTokenData.access_token,
-								expiresOnTimestamp: oauthTokenData.expires_at 
-									? new Date(oauthTokenData.expires_at).getTime() 
-									: Date.now() + 3600000,
-							}),
-						};
-
-						client = new CosmosClient({
-							endpoint,
-							aadCredentials: tokenCredential,
-						});
-					} else {
-						// Use master key authentication
-						const credentials = await this.getCredentials('azureCosmosSdkApi');
-						const endpoint = credentials.endpoint as string;
-						const key = credentials.key as string;
-						client = new CosmosClient({ endpoint, key });
-					}
-
-					// Get the selected database name for document operations
-					const databaseParam = this.getNodeParameter('databaseName', 0) as any;
-					const databaseName = typeof databaseParam === 'string' ? databaseParam : (databaseParam?.value || '');
-					
-					if (!databaseName) {
-						return { results: [] };
-					}
-
-					const database = client.database(databaseName);
-
-					// Fetch containers using the SDK
-					const { resources: containers } = await database.containers.readAll().fetchAll();
-
-					// Map containers to options format
-					let results: INodePropertyOptions[] = containers.map((container: any) => ({
-						name: container.id,
-						value: container.id,
-					}));
-
-					// Apply filter if provided
-					if (filter) {
-						const filterLower = filter.toLowerCase();
-						results = results.filter((c) => c.name.toLowerCase().includes(filterLower));
-					}
-
-					return {
-						results: results.sort((a, b) => a.name.localeCompare(b.name)),
-					};
-				} catch (error) {
-					throw new Error(`Failed to load containers: ${error.message}`);
-				}
+				// Containers for Delete Container come from the database picked for that operation
+				const databaseName = this.getNodeParameter('databaseForContainerDelete', '', { extractValue: true }) as string;
+				return await listContainers(this, databaseName, filter);
 			},
+			getContainersForDocOps: searchContainers,
 		},
 	};
 }
@@ -0,0 +1,301 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+import { ChangeFeedMode, ChangeFeedStartFrom } from '@azure/cosmos';
+import {
+	authenticationTypeProperty,
+	cosmosCredentials,
+	getCosmosClient,
+	searchContainers,
+	searchDatabases,
+} from './GenericFunctions';
+
+// n8n versions without getPollBudgetMs get this much time per poll
+const DEFAULT_POLL_BUDGET_MS = 60000;
+
+// Helper function to resolve where the change feed iterator should start reading
+function getChangeFeedStartFrom(
+	context: IPollFunctions,
+	continuationToken: string | undefined,
+	startFrom: string,
+	startTime: string,
+): ChangeFeedStartFrom {
+	// A saved continuation token always wins over the configured start point
+	if (continuationToken) {
+		return ChangeFeedStartFrom.Continuation(continuationToken);
+	}
+
+	if (startFrom === 'beginning') {
+		return ChangeFeedStartFrom.Beginning();
+	}
+
+	if (startFrom === 'time') {
+		const time = new Date(startTime);
+		if (!startTime || isNaN(time.getTime())) {
+			throw new NodeOperationError(context.getNode(), 'Start Time must be a valid date and time');
+		}
+		return ChangeFeedStartFrom.Time(time);
+	}
+
+	return ChangeFeedStartFrom.Now();
+}
+
+export class AzureCosmosSdkTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Azure Cosmos DB (SDK) Trigger',
+		name: 'azureCosmosSdkTrigger',
+		icon: { light: 'file:cosmos.svg', dark: 'file:cosmos.dark.svg' },
+		group: ['trigger'],
+		version: 1,
+		description: 'Starts the workflow when documents in an Azure Cosmos DB container change',
+		subtitle: '={{"Change feed: " + $parameter["containerName"].value}}',
+		defaults: {
+			name: 'Azure Cosmos DB (SDK) Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionTypes.Main],
+		credentials: cosmosCredentials,
+		properties: [
+			authenticationTypeProperty,
+			{
+				displayName: 'Database',
+				name: 'databaseName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The database containing the container to watch',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a database...',
+						typeOptions: {
+							searchListMethod: 'getDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-database',
+					},
+				],
+			},
+			{
+				displayName: 'Container',
+				name: 'containerName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The container whose change feed is read',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a container...',
+						typeOptions: {
+							searchListMethod: 'getContainers',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+				],
+			},
+			{
+				displayName: 'Change Feed Mode',
+				name: 'changeFeedMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Latest Version',
+						value: 'latestVersion',
+						description: 'Emit the latest version of each created or updated document',
+					},
+					{
+						name: 'All Versions and Deletes',
+						value: 'allVersionsAndDeletes',
+						description:
+							'Emit every create, replace and delete with its metadata. Requires continuous backup on the account and can only start from now.',
+					},
+				],
+				default: 'latestVersion',
+				description: 'Which changes the feed reports',
+			},
+			{
+				displayName: 'Start From',
+				name: 'startFrom',
+				type: 'options',
+				options: [
+					{
+						name: 'Now',
+						value: 'now',
+						description: 'Only report changes made after the workflow is activated',
+					},
+					{
+						name: 'Beginning',
+						value: 'beginning',
+						description: 'Report every document currently in the container, then new changes',
+					},
+					{
+						name: 'Point in Time',
+						value: 'time',
+						description: 'Report changes made after a specific date and time',
+					},
+				],
+				default: 'now',
+				description:
+					'Where to start reading the change feed on the first poll. Later polls continue from the saved position.',
+			},
+			{
+				displayName: 'Start Time',
+				name: 'startTime',
+				type: 'dateTime',
+				default: '',
+				required: true,
+				description: 'Changes made after this time are reported',
+				displayOptions: {
+					show: {
+						startFrom: ['time'],
+					},
+				},
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Max Item Count',
+						name: 'maxItemCount',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 100,
+						description: 'Maximum number of changes Cosmos DB returns per page',
+					},
+					{
+						displayName: 'Max Items per Poll',
+						name: 'maxItemsPerPoll',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description:
+							'Stop reading once this many changes have been collected (0 = no limit). The page that reaches the limit is emitted in full and the rest is read on the next poll.',
+					},
+				],
+			},
+		],
+	};
+
+	methods = {
+		listSearch: {
+			getDatabases: searchDatabases,
+			getContainers: searchContainers,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const staticData = this.getWorkflowStaticData('node');
+		const authenticationType = this.getNodeParameter('authenticationType') as string;
+		const databaseName = this.getNodeParameter('databaseName', '', { extractValue: true }) as string;
+		const containerName = this.getNodeParameter('containerName', '', { extractValue: true }) as string;
+		const changeFeedMode = this.getNodeParameter('changeFeedMode', 'latestVersion') as string;
+		const startFrom = this.getNodeParameter('startFrom', 'now') as string;
+		const startTime = startFrom === 'time' ? (this.getNodeParameter('startTime', '') as string) : '';
+		const options = this.getNodeParameter('options', {}) as IDataObject;
+		const maxItemCount = (options.maxItemCount as number) || 100;
+		const maxItemsPerPoll = (options.maxItemsPerPoll as number) || 0;
+
+		if (changeFeedMode === 'allVersionsAndDeletes' && startFrom !== 'now') {
+			throw new NodeOperationError(
+				this.getNode(),
+				'All Versions and Deletes mode can only start from now',
+			);
+		}
+
+		// A saved continuation token only applies to the feed it was issued for, so
+		// changing the container or start point begins a fresh read
+		const feedKey = [databaseName, containerName, changeFeedMode, startFrom, startTime].join('|');
+		const isManual = this.getMode() === 'manual';
+		const continuationToken =
+			staticData.feedKey === feedKey ? (staticData.continuationToken as string | undefined) : undefined;
+
+		const client = await getCosmosClient(this, authenticationType);
+		const container = client.database(databaseName).container(containerName);
+
+		const iterator = container.items.getChangeFeedIterator({
+			maxItemCount,
+			changeFeedStartFrom: getChangeFeedStartFrom(this, continuationToken, startFrom, startTime),
+			changeFeedMode:
+				changeFeedMode === 'allVersionsAndDeletes'
+					? ChangeFeedMode.AllVersionsAndDeletes
+					: ChangeFeedMode.LatestVersion,
+		});
+
+		// Leave headroom so a large backlog is drained over several polls instead of
+		// overrunning the time the engine allows for one
+		const pollBudgetMs =
+			typeof this.getPollBudgetMs === 'function' ? this.getPollBudgetMs() : DEFAULT_POLL_BUDGET_MS;
+		const deadline = Date.now() + pollBudgetMs * 0.8;
+		const changes: IDataObject[] = [];
+		let nextContinuationToken = continuationToken;
+
+		try {
+			while (true) {
+				const response = await iterator.readNext();
+				nextContinuationToken = response.continuationToken ?? nextContinuationToken;
+
+				// 304 Not Modified means the feed has been read to the end
+				if (response.statusCode === 304 || !response.result?.length) {
+					break;
+				}
+
+				changes.push(...(response.result as IDataObject[]));
+
+				// Manual runs only need a sample of the changes
+				if (isManual) {
+					break;
+				}
+
+				if ((maxItemsPerPoll > 0 && changes.length >= maxItemsPerPoll) || Date.now() >= deadline) {
+					break;
+				}
+			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error as Error, {
+				message: `Failed to read the change feed of container '${containerName}': ${(error as Error).message}`,
+			});
+		}
+
+		// Manual runs leave the saved position untouched so activation starts where it should
+		if (!isManual) {
+			staticData.feedKey = feedKey;
+			staticData.continuationToken = nextContinuationToken;
+		}
+
+		if (changes.length === 0) {
+			return null;
+		}
+
+		return [this.helpers.returnJsonArray(changes)];
+	}
+}
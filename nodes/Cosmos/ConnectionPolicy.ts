@@ -0,0 +1,94 @@
+import type { ICredentialDataDecryptedObject, INodeProperties } from 'n8n-workflow';
+
+export interface ConnectionPolicy {
+	preferredLocations?: string[];
+	enableEndpointDiscovery?: boolean;
+	useMultipleWriteLocations?: boolean;
+	requestTimeout?: number;
+}
+
+// Connection policy fields shared by every Cosmos DB credential; the SDK defaults apply until customized
+export const connectionPolicyProperties: INodeProperties[] = [
+	{
+		displayName: 'Customize Connection Policy',
+		name: 'customizeConnectionPolicy',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to set preferred regions, endpoint discovery, multi-region writes and the request timeout instead of using the SDK defaults',
+	},
+	{
+		displayName: 'Preferred Locations',
+		name: 'preferredLocations',
+		type: 'string',
+		default: '',
+		placeholder: 'West Europe, North Europe',
+		description:
+			'Comma-separated regions to send requests to, in order of preference. Regions the account is not replicated to are skipped. Leave empty to use the write region.',
+		displayOptions: {
+			show: {
+				customizeConnectionPolicy: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Enable Endpoint Discovery',
+		name: 'enableEndpointDiscovery',
+		type: 'boolean',
+		default: true,
+		description:
+			"Whether to discover the account's regional endpoints. When disabled, every request goes to the configured endpoint and Preferred Locations are ignored.",
+		displayOptions: {
+			show: {
+				customizeConnectionPolicy: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Use Multi-Region Writes',
+		name: 'useMultipleWriteLocations',
+		type: 'boolean',
+		default: true,
+		description:
+			'Whether to send writes to the preferred locations when the account has multi-region writes enabled. When disabled, writes always go to the primary write region.',
+		displayOptions: {
+			show: {
+				customizeConnectionPolicy: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Request Timeout (Ms)',
+		name: 'requestTimeout',
+		type: 'number',
+		typeOptions: {
+			minValue: 1000,
+		},
+		default: 60000,
+		description: 'How long to wait for a single request before retrying it in another region or failing',
+		displayOptions: {
+			show: {
+				customizeConnectionPolicy: [true],
+			},
+		},
+	},
+];
+
+// Helper function to build the SDK connection policy from a credential, or undefined to keep the SDK defaults
+export function getConnectionPolicy(credentials: ICredentialDataDecryptedObject): ConnectionPolicy | undefined {
+	if (credentials.customizeConnectionPolicy !== true) {
+		return undefined;
+	}
+
+	const preferredLocations = ((credentials.preferredLocations as string) ?? '')
+		.split(',')
+		.map((location) => location.trim())
+		.filter((location) => location.length > 0);
+
+	return {
+		preferredLocations: preferredLocations.length > 0 ? preferredLocations : undefined,
+		enableEndpointDiscovery: credentials.enableEndpointDiscovery !== false,
+		useMultipleWriteLocations: credentials.useMultipleWriteLocations !== false,
+		requestTimeout: (credentials.requestTimeout as number) || undefined,
+	};
+}
@@ -0,0 +1,57 @@
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+
+export interface MasterKeyConnection {
+	endpoint: string;
+	key: string;
+	// Only ever true for an emulator on the local machine
+	allowSelfSignedCertificates?: boolean;
+}
+
+// Hosts of an emulator running on the same machine as n8n
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Helper function to check whether an endpoint points at the local machine
+function isLocalEndpoint(endpoint: string): boolean {
+	try {
+		return LOCAL_HOSTS.includes(new URL(endpoint).hostname.toLowerCase());
+	} catch {
+		return false;
+	}
+}
+
+// Helper function to parse an AccountEndpoint=...;AccountKey=...; connection string.
+// Keys are base64 and end in '=', so each setting is split on its first '=' only.
+export function parseConnectionString(connectionString: string): MasterKeyConnection {
+	const settings: { [name: string]: string } = {};
+	for (const part of connectionString.split(';')) {
+		const separator = part.indexOf('=');
+		if (separator > 0) {
+			settings[part.slice(0, separator).trim().toLowerCase()] = part.slice(separator + 1).trim();
+		}
+	}
+
+	if (!settings.accountendpoint || !settings.accountkey) {
+		throw new Error('The connection string must contain AccountEndpoint and AccountKey');
+	}
+
+	return { endpoint: settings.accountendpoint, key: settings.accountkey };
+}
+
+// Helper function to read the endpoint and key of a master key credential in either connection mode.
+// Self-signed certificates are only accepted from a local emulator, so TLS is never skipped for a remote account.
+export function getMasterKeyConnection(credentials: ICredentialDataDecryptedObject): MasterKeyConnection {
+	const connection =
+		credentials.connectionType === 'connectionString'
+			? parseConnectionString(credentials.connectionString as string)
+			: { endpoint: credentials.endpoint as string, key: credentials.key as string };
+
+	if (credentials.useLocalEmulator !== true) {
+		return connection;
+	}
+	if (!isLocalEndpoint(connection.endpoint)) {
+		throw new Error(
+			`Local Emulator is only allowed for endpoints on localhost, 127.0.0.1 or [::1], not for ${connection.endpoint}`,
+		);
+	}
+	return { ...connection, allowSelfSignedCertificates: true };
+}
@@ -0,0 +1,185 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export const VECTOR_DATA_TYPES = ['float32', 'float16', 'int8', 'uint8'];
+export const VECTOR_DISTANCE_FUNCTIONS = ['cosine', 'dotproduct', 'euclidean'];
+export const VECTOR_INDEX_TYPES = ['flat', 'quantizedFlat', 'diskANN'];
+export const SPATIAL_TYPES = ['Point', 'Polygon', 'LineString', 'MultiPolygon'];
+
+// Helper function to split a comma-separated list of document paths
+export function parsePathList(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((path) => path.trim())
+		.filter((path) => path.length > 0);
+}
+
+// Helper function to parse one composite index written as "/name asc, /age desc"
+export function parseCompositeIndex(value: string): Array<{ path: string; order: string }> {
+	return parsePathList(value).map((field) => {
+		const [path, order = 'asc'] = field.split(/\s+/);
+		const normalizedOrder = order.toLowerCase();
+		return {
+			path,
+			order: normalizedOrder === 'desc' || normalizedOrder === 'descending' ? 'descending' : 'ascending',
+		};
+	});
+}
+
+// Helper function to merge a raw container definition over the one built from the form.
+// Objects are merged key by key; arrays and other values from the raw definition replace the form's.
+export function mergeContainerDefinition(target: IDataObject, source: IDataObject): IDataObject {
+	const merged: IDataObject = { ...target };
+	for (const [key, value] of Object.entries(source)) {
+		const current = merged[key];
+		const isObject = (candidate: unknown) =>
+			typeof candidate === 'object' && candidate !== null && !Array.isArray(candidate);
+		merged[key] =
+			isObject(current) && isObject(value)
+				? mergeContainerDefinition(current as IDataObject, value as IDataObject)
+				: value;
+	}
+	return merged;
+}
+
+// Helper function to read an array property of a policy, treating a missing one as empty
+function asArray(value: unknown): IDataObject[] {
+	return Array.isArray(value) ? (value as IDataObject[]) : [];
+}
+
+// Helper function to check that a value is a document path
+function isPath(value: unknown): boolean {
+	return typeof value === 'string' && value.startsWith('/');
+}
+
+/**
+ * Checks a container definition before it is sent to Cosmos DB.
+ *
+ * Cosmos DB rejects invalid policies too, but only with a generic message about the first
+ * problem it finds. This lists every problem with the property it was found in.
+ */
+export function validateContainerDefinition(definition: IDataObject): void {
+	const problems: string[] = [];
+
+	if (typeof definition.id !== 'string' || !definition.id) {
+		problems.push('id must be a non-empty string');
+	}
+
+	const partitionKey = definition.partitionKey as IDataObject | undefined;
+	if (partitionKey !== undefined) {
+		const paths = partitionKey.paths as unknown[] | undefined;
+		if (!Array.isArray(paths) || paths.length === 0 || paths.length > 3 || !paths.every(isPath)) {
+			problems.push('partitionKey.paths must contain one to three paths starting with /');
+		} else if (paths.length > 1 && partitionKey.kind !== 'MultiHash') {
+			problems.push("partitionKey.kind must be 'MultiHash' for more than one path");
+		}
+	}
+
+	const indexingPolicy = (definition.indexingPolicy ?? {}) as IDataObject;
+	for (const key of ['includedPaths', 'excludedPaths']) {
+		asArray(indexingPolicy[key]).forEach((entry, index) => {
+			if (!isPath(entry.path)) {
+				problems.push(`indexingPolicy.${key}[${index}].path must start with /`);
+			}
+		});
+	}
+
+	asArray(indexingPolicy.compositeIndexes).forEach((compositeIndex, index) => {
+		const fields = compositeIndex as unknown as IDataObject[];
+		if (!Array.isArray(fields) || fields.length < 2) {
+			problems.push(`indexingPolicy.compositeIndexes[${index}] must contain at least two paths`);
+			return;
+		}
+		fields.forEach((field, fieldIndex) => {
+			if (!isPath(field.path)) {
+				problems.push(`indexingPolicy.compositeIndexes[${index}][${fieldIndex}].path must start with /`);
+			}
+			if (field.order !== undefined && field.order !== 'ascending' && field.order !== 'descending') {
+				problems.push(
+					`indexingPolicy.compositeIndexes[${index}][${fieldIndex}].order must be 'ascending' or 'descending'`,
+				);
+			}
+		});
+	});
+
+	asArray(indexingPolicy.spatialIndexes).forEach((spatialIndex, index) => {
+		if (!isPath(spatialIndex.path)) {
+			problems.push(`indexingPolicy.spatialIndexes[${index}].path must start with /`);
+		}
+		const types = spatialIndex.types as unknown[] | undefined;
+		if (!Array.isArray(types) || types.length === 0 || !types.every((type) => SPATIAL_TYPES.includes(type as string))) {
+			problems.push(`indexingPolicy.spatialIndexes[${index}].types must list one or more of ${SPATIAL_TYPES.join(', ')}`);
+		}
+	});
+
+	const vectorEmbeddings = asArray((definition.vectorEmbeddingPolicy as IDataObject | undefined)?.vectorEmbeddings);
+	const vectorPaths = new Set<string>();
+	vectorEmbeddings.forEach((embedding, index) => {
+		const label = `vectorEmbeddingPolicy.vectorEmbeddings[${index}]`;
+		if (!isPath(embedding.path)) {
+			problems.push(`${label}.path must start with /`);
+		} else if (vectorPaths.has(embedding.path as string)) {
+			problems.push(`${label}.path '${embedding.path as string}' is used by more than one embedding`);
+		}
+		vectorPaths.add(embedding.path as string);
+		if (!VECTOR_DATA_TYPES.includes(embedding.dataType as string)) {
+			problems.push(`${label}.dataType must be one of ${VECTOR_DATA_TYPES.join(', ')}`);
+		}
+		if (!Number.isInteger(embedding.dimensions) || (embedding.dimensions as number) < 1) {
+			problems.push(`${label}.dimensions must be a positive integer`);
+		}
+		if (!VECTOR_DISTANCE_FUNCTIONS.includes(embedding.distanceFunction as string)) {
+			problems.push(`${label}.distanceFunction must be one of ${VECTOR_DISTANCE_FUNCTIONS.join(', ')}`);
+		}
+	});
+	asArray(indexingPolicy.vectorIndexes).forEach((vectorIndex, index) => {
+		if (!vectorPaths.has(vectorIndex.path as string)) {
+			problems.push(`indexingPolicy.vectorIndexes[${index}].path must match a path of the vector embedding policy`);
+		}
+		if (!VECTOR_INDEX_TYPES.includes(vectorIndex.type as string)) {
+			problems.push(`indexingPolicy.vectorIndexes[${index}].type must be one of ${VECTOR_INDEX_TYPES.join(', ')}`);
+		}
+	});
+
+	const fullTextPaths = new Set(
+		asArray((definition.fullTextPolicy as IDataObject | undefined)?.fullTextPaths).map((entry) => entry.path as string),
+	);
+	asArray(indexingPolicy.fullTextIndexes).forEach((fullTextIndex, index) => {
+		if (!fullTextPaths.has(fullTextIndex.path as string)) {
+			problems.push(`indexingPolicy.fullTextIndexes[${index}].path must match a path of the full-text policy`);
+		}
+	});
+
+	asArray((definition.uniqueKeyPolicy as IDataObject | undefined)?.uniqueKeys).forEach((uniqueKey, index) => {
+		const paths = uniqueKey.paths as unknown[] | undefined;
+		if (!Array.isArray(paths) || paths.length === 0 || !paths.every(isPath)) {
+			problems.push(`uniqueKeyPolicy.uniqueKeys[${index}].paths must contain paths starting with /`);
+		}
+	});
+
+	const computedPropertyNames = new Set<string>();
+	asArray(definition.computedProperties).forEach((computedProperty, index) => {
+		const name = computedProperty.name as string;
+		if (typeof name !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) {
+			problems.push(`computedProperties[${index}].name must start with a letter and contain only letters, digits and _`);
+		} else if (computedPropertyNames.has(name)) {
+			problems.push(`computedProperties[${index}].name '${name}' is used more than once`);
+		}
+		computedPropertyNames.add(name);
+		if (typeof computedProperty.query !== 'string' || !/^\s*SELECT\s+VALUE\s/i.test(computedProperty.query)) {
+			problems.push(`computedProperties[${index}].query must be a SELECT VALUE query`);
+		}
+	});
+
+	const conflictResolutionPolicy = definition.conflictResolutionPolicy as IDataObject | undefined;
+	if (
+		conflictResolutionPolicy !== undefined &&
+		conflictResolutionPolicy.mode !== 'LastWriterWins' &&
+		conflictResolutionPolicy.mode !== 'Custom'
+	) {
+		problems.push("conflictResolutionPolicy.mode must be 'LastWriterWins' or 'Custom'");
+	}
+
+	if (problems.length > 0) {
+		throw new Error(`Invalid container definition: ${problems.join('; ')}`);
+	}
+}
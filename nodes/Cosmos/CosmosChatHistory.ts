@@ -0,0 +1,135 @@
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { randomUUID } from 'crypto';
+import { BaseChatHistory } from '@n8n/ai-node-sdk';
+import type { Message } from '@n8n/ai-node-sdk';
+
+export interface CosmosChatHistoryFields {
+	node: INode;
+	container: {
+		item(id: string, partitionKey: string): {
+			delete(): Promise<unknown>;
+		};
+		items: {
+			create(body: IDataObject): Promise<unknown>;
+			query(
+				querySpec: { query: string; parameters: IDataObject[] },
+				options?: { partitionKey?: string },
+			): {
+				fetchAll(): Promise<{ resources: IDataObject[] }>;
+			};
+		};
+	};
+	sessionId: string;
+	// '/sessionId' or '/id', the partition key path of the container
+	partitionKeyPath: string;
+	// Only the latest messages are read when set
+	maxMessages?: number;
+	ttlSeconds?: number;
+}
+
+// Helper function to read the status code of a failed SDK request
+function getStatusCode(error: unknown): number | undefined {
+	return (error as { code?: number }).code;
+}
+
+/**
+ * Chat history stored as one document per message in an Azure Cosmos DB container.
+ *
+ * Each message document carries the session ID in its sessionId field and a sequence
+ * number that orders the session. Documents never grow, so long conversations stay
+ * below the item size limit, and reading the history only fetches the latest messages.
+ */
+export class CosmosChatHistory extends BaseChatHistory {
+	constructor(private readonly fields: CosmosChatHistoryFields) {
+		super();
+	}
+
+	// Helper to scope queries to the session's partition when the container is partitioned on sessionId
+	private get queryOptions() {
+		return this.fields.partitionKeyPath === '/sessionId' ? { partitionKey: this.fields.sessionId } : undefined;
+	}
+
+	async getMessages(): Promise<Message[]> {
+		const { maxMessages, sessionId } = this.fields;
+		const parameters: IDataObject[] = [{ name: '@sessionId', value: sessionId }];
+		if (maxMessages) {
+			parameters.push({ name: '@maxMessages', value: maxMessages });
+		}
+
+		try {
+			// Newest first so TOP keeps the latest messages, then back to chronological order
+			const { resources } = await this.fields.container.items
+				.query(
+					{
+						query:
+							`SELECT ${maxMessages ? 'TOP @maxMessages ' : ''}c.message FROM c ` +
+							'WHERE c.sessionId = @sessionId AND IS_DEFINED(c.message) ORDER BY c.sequence DESC',
+						parameters,
+					},
+					this.queryOptions,
+				)
+				.fetchAll();
+			return resources.map((resource) => resource.message as unknown as Message).reverse();
+		} catch (error) {
+			throw new NodeOperationError(this.fields.node, error as Error);
+		}
+	}
+
+	async addMessage(message: Message): Promise<void> {
+		await this.addMessages([message]);
+	}
+
+	async addMessages(messages: Message[]): Promise<void> {
+		const { sessionId, ttlSeconds } = this.fields;
+		const createdAt = new Date();
+		// Messages written in the same call keep their order within the millisecond
+		const firstSequence = createdAt.getTime() * 1000;
+
+		for (let index = 0; index < messages.length; index++) {
+			try {
+				await this.fields.container.items.create({
+					id: randomUUID(),
+					sessionId,
+					sequence: firstSequence + index,
+					message: messages[index] as unknown as IDataObject,
+					createdAt: createdAt.toISOString(),
+					...(ttlSeconds ? { ttl: ttlSeconds } : {}),
+				});
+			} catch (error) {
+				throw new NodeOperationError(this.fields.node, error as Error);
+			}
+		}
+	}
+
+	async clear(): Promise<void> {
+		const { partitionKeyPath, sessionId } = this.fields;
+
+		let resources: IDataObject[];
+		try {
+			({ resources } = await this.fields.container.items
+				.query(
+					{
+						query: 'SELECT c.id FROM c WHERE c.sessionId = @sessionId',
+						parameters: [{ name: '@sessionId', value: sessionId }],
+					},
+					this.queryOptions,
+				)
+				.fetchAll());
+		} catch (error) {
+			throw new NodeOperationError(this.fields.node, error as Error);
+		}
+
+		for (const { id } of resources) {
+			const partitionKey = partitionKeyPath === '/sessionId' ? sessionId : (id as string);
+			try {
+				await this.fields.container.item(id as string, partitionKey).delete();
+			} catch (error) {
+				// Already expired or deleted by another worker
+				if (getStatusCode(error) !== 404) {
+					throw new NodeOperationError(this.fields.node, error as Error);
+				}
+			}
+		}
+	}
+}
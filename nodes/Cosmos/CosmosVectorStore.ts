@@ -0,0 +1,175 @@
+import type { IDataObject, INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { randomUUID } from 'crypto';
+import { Document } from '@langchain/core/documents';
+import type { DocumentInterface } from '@langchain/core/documents';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { VectorStore } from '@langchain/core/vectorstores';
+import { toPropertyReference } from './GenericFunctions';
+
+export interface CosmosVectorStoreFields {
+	node: INode;
+	container: {
+		items: {
+			upsert(body: IDataObject): Promise<unknown>;
+			query(querySpec: { query: string; parameters: IDataObject[] }): {
+				fetchAll(): Promise<{ resources: IDataObject[] }>;
+			};
+		};
+	};
+	partitionKeyPaths: string[];
+	vectorPath: string;
+	textPath: string;
+	metadataPath: string;
+	partitionKeyValue?: string;
+	filter?: string;
+}
+
+// Helper function to split the Partition Key Value option into one value per partition key path
+function toPartitionKeyValues(partitionKeyValue: string | undefined, pathCount: number): unknown[] {
+	if (!partitionKeyValue) {
+		return [];
+	}
+	if (pathCount > 1 && partitionKeyValue.trim().startsWith('[')) {
+		const parsed = JSON.parse(partitionKeyValue);
+		return Array.isArray(parsed) ? parsed : [parsed];
+	}
+	return [partitionKeyValue];
+}
+
+// Helper function to split a document path like /metadata/author into its segments
+function toSegments(path: string): string[] {
+	return path
+		.replace(/^\//, '')
+		.split(/[/.]/)
+		.filter((segment) => segment.length > 0);
+}
+
+// Helper function to set a value at a document path, creating intermediate objects
+function setPathValue(document: IDataObject, path: string, value: unknown): void {
+	const segments = toSegments(path);
+	let target = document;
+	for (const segment of segments.slice(0, -1)) {
+		if (typeof target[segment] !== 'object' || target[segment] === null) {
+			target[segment] = {};
+		}
+		target = target[segment] as IDataObject;
+	}
+	target[segments[segments.length - 1]] = value as IDataObject[string];
+}
+
+// Helper function to read the value at a document path
+function getPathValue(document: IDataObject, path: string): unknown {
+	return toSegments(path).reduce<unknown>(
+		(value, segment) => (value && typeof value === 'object' ? (value as IDataObject)[segment] : undefined),
+		document,
+	);
+}
+
+/**
+ * LangChain vector store backed by an Azure Cosmos DB for NoSQL container.
+ *
+ * Each document is stored with its text, metadata and embedding at configurable
+ * paths and searched with VectorDistance(). The filter is a map of metadata
+ * fields to the values they must equal.
+ */
+export class CosmosVectorStore extends VectorStore {
+	declare FilterType: Record<string, unknown>;
+
+	private readonly fields: CosmosVectorStoreFields;
+
+	constructor(embeddings: EmbeddingsInterface, fields: CosmosVectorStoreFields) {
+		super(embeddings, {});
+		this.fields = fields;
+	}
+
+	_vectorstoreType(): string {
+		return 'azure-cosmos-sdk';
+	}
+
+	async addDocuments(documents: DocumentInterface[], options?: { ids?: string[] }): Promise<string[]> {
+		const vectors = await this.embeddings.embedDocuments(documents.map((document) => document.pageContent));
+		return await this.addVectors(vectors, documents, options);
+	}
+
+	async addVectors(
+		vectors: number[][],
+		documents: DocumentInterface[],
+		options?: { ids?: string[] },
+	): Promise<string[]> {
+		const { partitionKeyPaths, textPath, metadataPath, vectorPath } = this.fields;
+		const partitionKeyValues = toPartitionKeyValues(this.fields.partitionKeyValue, partitionKeyPaths.length);
+		const ids: string[] = [];
+
+		for (let index = 0; index < documents.length; index++) {
+			const document = documents[index];
+			const id = options?.ids?.[index] ?? document.id ?? randomUUID();
+			const metadata = (document.metadata ?? {}) as IDataObject;
+			const body: IDataObject = { id };
+
+			setPathValue(body, textPath, document.pageContent);
+			setPathValue(body, metadataPath, metadata);
+			setPathValue(body, vectorPath, vectors[index]);
+
+			// Each partition key field comes from the Partition Key Value option or a metadata field of the same name
+			partitionKeyPaths.forEach((partitionKeyPath, pathIndex) => {
+				if (getPathValue(body, partitionKeyPath) !== undefined) {
+					return;
+				}
+				const partitionKeyValue =
+					partitionKeyValues[pathIndex] ?? getPathValue(metadata, partitionKeyPath);
+				if (partitionKeyValue === undefined || partitionKeyValue === '') {
+					throw new NodeOperationError(
+						this.fields.node,
+						`Document has no value for partition key '${partitionKeyPath}'. Set Partition Key Value or add the field to the document metadata.`,
+					);
+				}
+				setPathValue(body, partitionKeyPath, partitionKeyValue);
+			});
+
+			await this.fields.container.items.upsert(body);
+			ids.push(id);
+		}
+
+		return ids;
+	}
+
+	async similaritySearchVectorWithScore(
+		query: number[],
+		k: number,
+		filter?: this['FilterType'],
+	): Promise<Array<[DocumentInterface, number]>> {
+		const { textPath, metadataPath, vectorPath } = this.fields;
+		const conditions: string[] = [];
+		const parameters: IDataObject[] = [{ name: '@queryVector', value: query }];
+
+		if (this.fields.filter?.trim()) {
+			conditions.push(`(${this.fields.filter.trim()})`);
+		}
+		Object.entries(filter ?? {}).forEach(([key, value], index) => {
+			conditions.push(`${toPropertyReference(`${metadataPath}/${key}`)} = @filter${index}`);
+			parameters.push({ name: `@filter${index}`, value: value as IDataObject[string] });
+		});
+
+		const vectorDistance = `VectorDistance(${toPropertyReference(vectorPath)}, @queryVector)`;
+		const { resources } = await this.fields.container.items
+			.query({
+				query:
+					`SELECT TOP ${Math.floor(k)} c.id, ${toPropertyReference(textPath)} AS pageContent, ` +
+					`${toPropertyReference(metadataPath)} AS metadata, ${vectorDistance} AS score FROM c` +
+					(conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '') +
+					` ORDER BY ${vectorDistance}`,
+				parameters,
+			})
+			.fetchAll();
+
+		return resources.map((resource) => [
+			new Document({
+				id: resource.id as string,
+				pageContent: (resource.pageContent as string) ?? '',
+				metadata: (resource.metadata as Record<string, unknown>) ?? {},
+			}),
+			resource.score as number,
+		]);
+	}
+}
@@ -0,0 +1,500 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	INodeCredentialDescription,
+	INodeListSearchResult,
+	INodeProperties,
+	INodePropertyOptions,
+	IPollFunctions,
+	ISupplyDataFunctions,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { CosmosClient } from '@azure/cosmos';
+import type { TokenCredential } from '@azure/cosmos';
+import { createHmac } from 'crypto';
+// eslint-disable-next-line @n8n/community-nodes/no-restricted-imports -- Node.js built-in, needed for the emulator's TLS agent
+import { Agent } from 'https';
+import { getConnectionPolicy } from './ConnectionPolicy';
+import { getMasterKeyConnection } from './ConnectionString';
+import type { MasterKeyConnection } from './ConnectionString';
+import { createTokenCredential } from './TokenCredentials';
+import type { TokenRequest } from './TokenCredentials';
+
+interface OAuthTokenData {
+	access_token?: string;
+	expires_at?: string;
+}
+
+interface CachedClient {
+	client: CosmosClient;
+	// The authentication type and credential the client was created for, when the credential is saved
+	owner?: string;
+	// Entra ID clients read the latest token on every request, so refreshed credentials reach a cached client
+	oauthTokenData?: OAuthTokenData;
+	// Service principal and managed identity clients request tokens with the helper of the latest execution
+	tokenRequest?: TokenRequest;
+}
+
+// Credential type used by each authentication type that requests its own tokens
+const tokenCredentialTypes: { [authenticationType: string]: string } = {
+	clientSecret: 'azureCosmosSdkClientSecretApi',
+	clientCertificate: 'azureCosmosSdkClientCertificateApi',
+	managedIdentity: 'azureCosmosSdkManagedIdentityApi',
+};
+
+// Credentials shared by every Cosmos DB node, one per authentication type
+export const cosmosCredentials: INodeCredentialDescription[] = [
+	{
+		name: 'azureCosmosSdkApi',
+		required: true,
+		displayOptions: {
+			show: {
+				authenticationType: ['masterKey'],
+			},
+		},
+	},
+	{
+		name: 'azureCosmosSdkEntraIdApi',
+		required: true,
+		displayOptions: {
+			show: {
+				authenticationType: ['entraId'],
+			},
+		},
+	},
+	...Object.entries(tokenCredentialTypes).map(([authenticationType, name]) => ({
+		name,
+		required: true,
+		displayOptions: {
+			show: {
+				authenticationType: [authenticationType],
+			},
+		},
+	})),
+];
+
+export const authenticationTypeProperty: INodeProperties = {
+	displayName: 'Authentication Type',
+	name: 'authenticationType',
+	type: 'options',
+	options: [
+		{
+			name: 'Managed Identity',
+			value: 'managedIdentity',
+			description: 'Authenticate as the managed identity of the Azure resource n8n runs on',
+		},
+		{
+			name: 'Master Key',
+			value: 'masterKey',
+			description: 'Authenticate using Cosmos DB master key',
+		},
+		{
+			name: 'Microsoft Entra ID',
+			value: 'entraId',
+			description: 'Authenticate using Microsoft Entra ID (Azure AD) OAuth2',
+		},
+		{
+			name: 'Service Principal (Client Certificate)',
+			value: 'clientCertificate',
+			description: 'Authenticate as an app registration with a certificate',
+		},
+		{
+			name: 'Service Principal (Client Secret)',
+			value: 'clientSecret',
+			description: 'Authenticate as an app registration with a client secret',
+		},
+	],
+	default: 'masterKey',
+	description: 'The authentication method to use',
+};
+
+// Clients are cached per credential and endpoint so executions reuse their connections and metadata caches
+const clientCache = new Map<string, CachedClient>();
+const MAX_CACHED_CLIENTS = 20;
+
+// Container definitions are cached per client and refreshed when a partition key mismatch shows they are stale
+const containerDefinitionCache = new WeakMap<CosmosClient, Map<string, IDataObject>>();
+
+// Region names of each client's regional endpoints, read once from the database account
+const regionNameCache = new WeakMap<CosmosClient, Promise<Map<string, string>>>();
+
+// Helper function to remove a client from the cache and stop its background endpoint refresh
+function evictClient(cacheKey: string): void {
+	clientCache.get(cacheKey)?.client.dispose();
+	clientCache.delete(cacheKey);
+}
+
+// Helper function to add a client to the cache, replacing the client of the same credential created with
+// settings that have changed since, and dropping the least recently added one when the cache is full
+function cacheClient(cacheKey: string, entry: CachedClient): CachedClient {
+	if (entry.owner !== undefined) {
+		for (const [key, cached] of clientCache) {
+			if (cached.owner === entry.owner) {
+				evictClient(key);
+			}
+		}
+	}
+	if (clientCache.size >= MAX_CACHED_CLIENTS) {
+		evictClient(clientCache.keys().next().value as string);
+	}
+	clientCache.set(cacheKey, entry);
+	return entry;
+}
+
+// Helper function to read the ID of the credential the node uses, which is undefined until it is saved
+function getCredentialId(
+	context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions | ISupplyDataFunctions,
+	credentialType: string,
+): string | undefined {
+	return context.getNode().credentials?.[credentialType]?.id ?? undefined;
+}
+
+// Helper function to check and refresh OAuth2 token proactively
+export async function checkAndRefreshToken(
+	context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions | ISupplyDataFunctions,
+	credentialName: string,
+	endpoint: string,
+	oauthTokenData: OAuthTokenData,
+	refreshBeforeExpirySeconds: number,
+): Promise<void> {
+	// Decode JWT to get actual expiry time (without signature validation)
+	let expiresAt = 0;
+	try {
+		const accessToken = oauthTokenData.access_token as string;
+		// JWT format: header.payload.signature
+		const parts = accessToken.split('.');
+		if (parts.length === 3) {
+			// Decode the payload (base64url)
+			const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
+			// JWT exp is in seconds since epoch
+			expiresAt = payload.exp ? payload.exp * 1000 : 0;
+			context.logger.debug(`JWT decoded: expires at ${new Date(expiresAt).toISOString()}`);
+		}
+	} catch (error) {
+		// Fallback to oauthTokenData.expires_at if JWT decode fails
+		expiresAt = oauthTokenData.expires_at ? new Date(oauthTokenData.expires_at).getTime() : 0;
+		context.logger.debug('JWT decode failed, using oauthTokenData.expires_at');
+	}
+
+	// Check if token needs refresh based on buffer
+	const now = Date.now();
+	const timeUntilExpiry = (expiresAt - now) / 1000; // seconds
+
+	if (timeUntilExpiry > 0 && timeUntilExpiry < refreshBeforeExpirySeconds) {
+		// Token will expire soon, trigger refresh by making a lightweight API call
+		context.logger.info(`Token expires in ${Math.floor(timeUntilExpiry / 60)} minutes, refreshing...`);
+		try {
+			// Use Cosmos DB REST API to list databases (lightweight operation)
+			await context.helpers.httpRequestWithAuthentication.call(
+				context,
+				credentialName,
+				{
+					method: 'GET',
+					url: `${endpoint.replace(/\/$/, '')}/dbs`,
+					headers: {
+						'x-ms-version': '2018-12-31',
+					},
+				},
+			);
+			context.logger.info('✅ Token refreshed successfully via Cosmos DB API call');
+		} catch (error) {
+			context.logger.warn('Token refresh attempt failed, continuing with existing token');
+		}
+	} else if (timeUntilExpiry > 0) {
+		context.logger.info(`✓ Token still valid, expires in ${Math.floor(timeUntilExpiry / 60)} minutes`);
+	}
+}
+
+// Helper function to get the cached Cosmos DB client for the selected authentication type, creating it on first use
+export async function getCosmosClient(
+	context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions | ISupplyDataFunctions,
+	authenticationType: string,
+): Promise<CosmosClient> {
+	if (authenticationType === 'entraId') {
+		// Use Entra ID authentication with Microsoft OAuth2
+		const entraIdCredentials = await context.getCredentials('azureCosmosSdkEntraIdApi');
+		const endpoint = entraIdCredentials.endpoint as string;
+		const oauthTokenData = entraIdCredentials.oauthTokenData as OAuthTokenData | undefined;
+		const refreshBeforeExpirySeconds = (entraIdCredentials.refreshBeforeExpirySeconds as number) || 900;
+
+		if (!oauthTokenData?.access_token) {
+			throw new NodeOperationError(context.getNode(), 'No valid access token available. Please re-authenticate.');
+		}
+
+		// Check and refresh token proactively if needed
+		await checkAndRefreshToken(
+			context,
+			'azureCosmosSdkEntraIdApi',
+			endpoint,
+			oauthTokenData,
+			refreshBeforeExpirySeconds,
+		);
+
+		// The client reads the token of the credential it was created for, so it must not be shared by others
+		const credentialId = getCredentialId(context, 'azureCosmosSdkEntraIdApi');
+		if (!credentialId) {
+			throw new NodeOperationError(
+				context.getNode(),
+				'The Entra ID credential has no ID. Save the credential before using it.',
+			);
+		}
+		const connectionPolicy = getConnectionPolicy(entraIdCredentials);
+		const cacheKey = `entraId|${credentialId}|${endpoint}|${JSON.stringify(connectionPolicy ?? {})}`;
+		const cached = clientCache.get(cacheKey);
+		if (cached) {
+			cached.oauthTokenData = oauthTokenData;
+			return cached.client;
+		}
+
+		// Create a custom TokenCredential using the delegated OAuth token
+		const tokenCredential: TokenCredential = {
+			async getToken() {
+				// Use the access token from Microsoft OAuth2 credential
+				// n8n handles token refresh automatically via the microsoftOAuth2Api credential
+				const tokenData = entry.oauthTokenData as OAuthTokenData;
+				return {
+					token: tokenData.access_token as string,
+					expiresOnTimestamp: tokenData.expires_at
+						? new Date(tokenData.expires_at).getTime()
+						: Date.now() + (3600 * 1000),
+				};
+			},
+		};
+
+		const entry: CachedClient = {
+			client: new CosmosClient({ endpoint, aadCredentials: tokenCredential, connectionPolicy }),
+			owner: `entraId|${credentialId}`,
+			oauthTokenData,
+		};
+		return cacheClient(cacheKey, entry).client;
+	}
+
+	const tokenCredentialType = tokenCredentialTypes[authenticationType];
+	if (tokenCredentialType) {
+		const credentials = await context.getCredentials(tokenCredentialType);
+		const endpoint = credentials.endpoint as string;
+		const tokenRequest: TokenRequest = async (options) => await context.helpers.httpRequest(options);
+
+		// Changing any field of the credential creates a new client; the token cached by n8n is not part of it
+		const settings = Object.fromEntries(Object.entries(credentials).filter(([key]) => key !== 'accessToken'));
+		const digest = createHmac('sha256', JSON.stringify(settings)).update(endpoint).digest('hex');
+		const cacheKey = `${authenticationType}|${endpoint}|${digest}`;
+		const cached = clientCache.get(cacheKey);
+		if (cached) {
+			cached.tokenRequest = tokenRequest;
+			return cached.client;
+		}
+
+		const credentialId = getCredentialId(context, tokenCredentialType);
+
+		const entry: CachedClient = {
+			client: new CosmosClient({
+				endpoint,
+				aadCredentials: createTokenCredential(
+					() => entry.tokenRequest as TokenRequest,
+					authenticationType,
+					settings,
+				),
+				connectionPolicy: getConnectionPolicy(credentials),
+			}),
+			owner: credentialId && `${authenticationType}|${credentialId}`,
+			tokenRequest,
+		};
+		return cacheClient(cacheKey, entry).client;
+	}
+
+	// Use master key authentication
+	const credentials = await context.getCredentials('azureCosmosSdkApi');
+	let connection: MasterKeyConnection;
+	try {
+		connection = getMasterKeyConnection(credentials);
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), (error as Error).message);
+	}
+	const { endpoint, key } = connection;
+	const allowSelfSignedCertificates = connection.allowSelfSignedCertificates === true;
+	const connectionPolicy = getConnectionPolicy(credentials);
+
+	// The key itself never ends up in the cache key, only a digest of it
+	const digest = createHmac('sha256', key).update(endpoint).digest('hex');
+	const cacheKey =
+		`masterKey|${endpoint}|${digest}|${allowSelfSignedCertificates}|${JSON.stringify(connectionPolicy ?? {})}`;
+	const cached = clientCache.get(cacheKey);
+	if (cached) {
+		return cached.client;
+	}
+
+	const credentialId = getCredentialId(context, 'azureCosmosSdkApi');
+	const owner = credentialId && `masterKey|${credentialId}`;
+	if (allowSelfSignedCertificates) {
+		// The emulator serves a self-signed certificate and advertises its container address as the
+		// account endpoint, which is not reachable through a mapped port, so region discovery is off
+		const client = new CosmosClient({
+			endpoint,
+			key,
+			agent: new Agent({ rejectUnauthorized: false }),
+			connectionPolicy: { ...connectionPolicy, enableEndpointDiscovery: false },
+		});
+		return cacheClient(cacheKey, { client, owner }).client;
+	}
+
+	return cacheClient(cacheKey, { client: new CosmosClient({ endpoint, key, connectionPolicy }), owner }).client;
+}
+
+// Helper function to check whether the node authenticates with a key marked read-only in its credential
+export async function usesReadOnlyKey(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	authenticationType: string,
+): Promise<boolean> {
+	if (authenticationType !== 'masterKey') {
+		return false;
+	}
+	const credentials = await context.getCredentials('azureCosmosSdkApi');
+	return credentials.readOnlyKey === true;
+}
+
+// Helper function to read a container definition, served from the client's cache unless a refresh is requested.
+// The SDK response is returned alongside the definition only when the container was actually read.
+export async function readContainerDefinition(
+	client: CosmosClient,
+	databaseName: string,
+	containerName: string,
+	refresh = false,
+): Promise<{ definition: IDataObject; response?: { requestCharge?: number; activityId?: string } }> {
+	let definitions = containerDefinitionCache.get(client);
+	if (!definitions) {
+		definitions = new Map();
+		containerDefinitionCache.set(client, definitions);
+	}
+
+	const cacheKey = `${databaseName}/${containerName}`;
+	const cached = definitions.get(cacheKey);
+	if (cached && !refresh) {
+		return { definition: cached };
+	}
+
+	const response = await client.database(databaseName).container(containerName).read();
+	const definition = (response.resource ?? {}) as IDataObject;
+	definitions.set(cacheKey, definition);
+	return { definition, response };
+}
+
+// Helper function to drop a cached container definition, e.g. after the container was deleted or changed
+export function invalidateContainerDefinition(client: CosmosClient, databaseName: string, containerName: string): void {
+	containerDefinitionCache.get(client)?.delete(`${databaseName}/${containerName}`);
+}
+
+// Helper function to name the regions behind the endpoints that served requests.
+// Endpoints the account does not list, e.g. the emulator's, are reported as they are.
+export async function getRegionNames(client: CosmosClient, endpoints: string[]): Promise<string[]> {
+	const normalize = (endpoint: string) => endpoint.toLowerCase().replace(/\/+$/, '');
+
+	let regionNames = regionNameCache.get(client);
+	if (!regionNames) {
+		regionNames = client.getDatabaseAccount().then(
+			({ resource }) =>
+				new Map(
+					[...(resource?.readableLocations ?? []), ...(resource?.writableLocations ?? [])].map(
+						(location) => [normalize(location.databaseAccountEndpoint), location.name],
+					),
+				),
+			() => new Map<string, string>(),
+		);
+		regionNameCache.set(client, regionNames);
+	}
+
+	const names = await regionNames;
+	return [...new Set(endpoints.map((endpoint) => names.get(normalize(endpoint)) ?? endpoint))];
+}
+
+// Helper function to turn a document path like /metadata/author into a query reference like c.metadata.author
+export function toPropertyReference(path: string): string {
+	const segments = path
+		.replace(/^\//, '')
+		.split(/[/.]/)
+		.filter((segment) => segment.length > 0);
+
+	return segments.reduce(
+		(reference, segment) =>
+			/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment)
+				? `${reference}.${segment}`
+				: `${reference}[${JSON.stringify(segment)}]`,
+		'c',
+	);
+}
+
+// List search for the databases of the account
+export async function searchDatabases(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const authenticationType = this.getNodeParameter('authenticationType', 0) as string;
+
+	try {
+		const client = await getCosmosClient(this, authenticationType);
+		const { resources: databases } = await client.databases.readAll().fetchAll();
+
+		let results: INodePropertyOptions[] = databases.map((db: { id: string }) => ({
+			name: db.id,
+			value: db.id,
+		}));
+
+		if (filter) {
+			const filterLower = filter.toLowerCase();
+			results = results.filter((db) => db.name.toLowerCase().includes(filterLower));
+		}
+
+		return {
+			results: results.sort((a, b) => a.name.localeCompare(b.name)),
+		};
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), `Failed to load databases: ${error.message}`);
+	}
+}
+
+// Helper function to list the containers of a database for a list search
+export async function listContainers(
+	context: ILoadOptionsFunctions,
+	databaseName: string,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	if (!databaseName) {
+		return { results: [] };
+	}
+
+	const authenticationType = context.getNodeParameter('authenticationType', 0) as string;
+
+	try {
+		const client = await getCosmosClient(context, authenticationType);
+		const { resources: containers } = await client
+			.database(databaseName)
+			.containers.readAll()
+			.fetchAll();
+
+		let results: INodePropertyOptions[] = containers.map((container: { id: string }) => ({
+			name: container.id,
+			value: container.id,
+		}));
+
+		if (filter) {
+			const filterLower = filter.toLowerCase();
+			results = results.filter((c) => c.name.toLowerCase().includes(filterLower));
+		}
+
+		return {
+			results: results.sort((a, b) => a.name.localeCompare(b.name)),
+		};
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), `Failed to load containers: ${error.message}`);
+	}
+}
+
+// List search for the containers of the database selected in the databaseName parameter
+export async function searchContainers(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const databaseName = this.getNodeParameter('databaseName', '', { extractValue: true }) as string;
+	return await listContainers(this, databaseName, filter);
+}
@@ -0,0 +1,180 @@
+import type { INodeType, INodeTypeDescription, ISupplyDataFunctions, SupplyData } from 'n8n-workflow';
+import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+import { WindowedChatMemory, supplyMemory } from '@n8n/ai-node-sdk';
+import { CosmosChatHistory } from './CosmosChatHistory';
+import {
+	authenticationTypeProperty,
+	cosmosCredentials,
+	getCosmosClient,
+	readContainerDefinition,
+	searchContainers,
+	searchDatabases,
+	usesReadOnlyKey,
+} from './GenericFunctions';
+
+export class MemoryAzureCosmosSdk implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Azure Cosmos DB (SDK) Chat Memory',
+		name: 'memoryAzureCosmosSdk',
+		icon: { light: 'file:cosmos.svg', dark: 'file:cosmos.dark.svg' },
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["containerName"].value}}',
+		description: 'Store the chat history of each session in an Azure Cosmos DB container',
+		defaults: {
+			name: 'Azure Cosmos DB (SDK) Chat Memory',
+		},
+		codex: {
+			categories: ['AI'],
+			subcategories: {
+				AI: ['Memory'],
+				Memory: ['Other memories'],
+			},
+		},
+		inputs: [],
+		outputs: [NodeConnectionTypes.AiMemory],
+		outputNames: ['Memory'],
+		credentials: cosmosCredentials,
+		properties: [
+			authenticationTypeProperty,
+			{
+				displayName: 'Database',
+				name: 'databaseName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The database containing the chat history container',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a database...',
+						typeOptions: {
+							searchListMethod: 'getDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-database',
+					},
+				],
+			},
+			{
+				displayName: 'Container',
+				name: 'containerName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				// eslint-disable-next-line n8n-nodes-base/node-param-description-miscased-id
+				description: 'The container storing the chat history. Its partition key must be /sessionId or /id.',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a container...',
+						typeOptions: {
+							searchListMethod: 'getContainers',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'chat-history',
+					},
+				],
+			},
+			{
+				displayName: 'Session ID',
+				name: 'sessionId',
+				type: 'string',
+				default: '={{ $json.sessionId }}',
+				required: true,
+				description: 'The conversation to load and save messages for. Used as the partition key.',
+			},
+			{
+				displayName: 'Context Window Length',
+				name: 'windowSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 5,
+				description: 'How many past interactions the model receives as context',
+			},
+			{
+				displayName: 'Message TTL (Seconds)',
+				name: 'ttlSeconds',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description: 'Delete each message this many seconds after it was saved (0 = keep forever). Time to live must be enabled on the container.',
+			},
+		],
+	};
+
+	methods = {
+		listSearch: {
+			getDatabases: searchDatabases,
+			getContainers: searchContainers,
+		},
+	};
+
+	async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+		const authenticationType = this.getNodeParameter('authenticationType', itemIndex) as string;
+		const databaseName = this.getNodeParameter('databaseName', itemIndex, '', { extractValue: true }) as string;
+		const containerName = this.getNodeParameter('containerName', itemIndex, '', { extractValue: true }) as string;
+		const sessionId = this.getNodeParameter('sessionId', itemIndex) as string;
+		const windowSize = this.getNodeParameter('windowSize', itemIndex, 5) as number;
+		const ttlSeconds = this.getNodeParameter('ttlSeconds', itemIndex, 0) as number;
+
+		if (!sessionId) {
+			throw new NodeOperationError(this.getNode(), 'Session ID cannot be empty', { itemIndex });
+		}
+
+		if (await usesReadOnlyKey(this, authenticationType)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'Chat memory saves messages, so it needs a credential with a read-write key',
+				{ itemIndex },
+			);
+		}
+
+		const client = await getCosmosClient(this, authenticationType);
+		const container = client.database(databaseName).container(containerName);
+
+		// Message documents carry the session ID in sessionId, so a session stays in one partition
+		// when the container is partitioned on it, and each message gets its own partition on /id
+		const { definition } = await readContainerDefinition(client, databaseName, containerName);
+		const partitionKeyPaths = (definition.partitionKey as { paths?: string[] } | undefined)?.paths ?? [];
+		const partitionKeyPath = partitionKeyPaths.join(', ');
+		if (partitionKeyPath !== '/sessionId' && partitionKeyPath !== '/id') {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Container '${containerName}' is partitioned on '${partitionKeyPath}'. Chat memory needs a container partitioned on /sessionId or /id.`,
+				{ itemIndex },
+			);
+		}
+
+		const chatHistory = new CosmosChatHistory({
+			node: this.getNode(),
+			container,
+			sessionId,
+			partitionKeyPath,
+			// The window only ever uses the latest messages, so older ones are not read
+			maxMessages: windowSize * 2,
+			ttlSeconds: ttlSeconds > 0 ? ttlSeconds : undefined,
+		});
+		const memory = new WindowedChatMemory(chatHistory, { windowSize });
+
+		return supplyMemory(this, memory);
+	}
+}
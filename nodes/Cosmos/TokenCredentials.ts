@@ -0,0 +1,178 @@
+import type { ICredentialDataDecryptedObject, IDataObject, IHttpRequestOptions } from 'n8n-workflow';
+import type { TokenCredential } from '@azure/cosmos';
+import { createHash, createSign, randomUUID } from 'crypto';
+
+export const DEFAULT_AUTHORITY_HOST = 'https://login.microsoftonline.com';
+export const DEFAULT_MANAGED_IDENTITY_ENDPOINT = 'http://169.254.169.254/metadata/identity/oauth2/token';
+export const DEFAULT_COSMOS_SCOPE = 'https://cosmos.azure.com/.default';
+
+// Tokens are renewed this long before they expire so a request never starts with an expiring token
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface AccessToken {
+	token: string;
+	expiresOnTimestamp: number;
+}
+
+// Sends the token request with n8n's httpRequest helper
+export type TokenRequest = (options: IHttpRequestOptions) => Promise<IDataObject>;
+
+// Helper function to turn base64 into the base64url encoding used in JWTs
+function toBase64Url(value: string): string {
+	return value.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+// Helper function to read the scope a credential requests, falling back to the Cosmos DB data plane
+function getScope(credentials: ICredentialDataDecryptedObject): string {
+	return (credentials.scope as string) || DEFAULT_COSMOS_SCOPE;
+}
+
+// Helper function to resolve the token endpoint of a service principal, unless the credential overrides it
+export function getTenantTokenEndpoint(credentials: ICredentialDataDecryptedObject): string {
+	if (credentials.tokenUrl) {
+		return credentials.tokenUrl as string;
+	}
+	const authorityHost = ((credentials.authorityHost as string) || DEFAULT_AUTHORITY_HOST).replace(/\/$/, '');
+	return `${authorityHost}/${credentials.tenantId as string}/oauth2/v2.0/token`;
+}
+
+// Helper function to build the signed JWT a certificate credential presents instead of a client secret
+export function createClientAssertion(
+	certificatePem: string,
+	passphrase: string | undefined,
+	clientId: string,
+	audience: string,
+): string {
+	const certificate = certificatePem.match(/-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/);
+	const privateKey = certificatePem.match(
+		/-----BEGIN (?:RSA |ENCRYPTED )?PRIVATE KEY-----[\s\S]+?-----END (?:RSA |ENCRYPTED )?PRIVATE KEY-----/,
+	);
+	if (!certificate || !privateKey) {
+		throw new Error('The certificate must be PEM text containing both the certificate and its private key');
+	}
+
+	// Entra ID identifies the certificate by the SHA-1 thumbprint of its DER encoding
+	const der = Buffer.from(certificate[1].replace(/\s+/g, ''), 'base64');
+	const thumbprint = toBase64Url(createHash('sha1').update(der).digest('base64'));
+
+	const now = Math.floor(Date.now() / 1000);
+	const header = { alg: 'RS256', typ: 'JWT', x5t: thumbprint };
+	const payload = { aud: audience, iss: clientId, sub: clientId, jti: randomUUID(), nbf: now, exp: now + 600 };
+	// The Buffer declared for this package only types toString() without an encoding
+	const encode = (value: object) =>
+		toBase64Url(
+			(Buffer.from(JSON.stringify(value), 'utf8') as unknown as { toString(encoding: string): string }).toString(
+				'base64',
+			),
+		);
+	const unsigned = `${encode(header)}.${encode(payload)}`;
+
+	const signature = createSign('RSA-SHA256')
+		.update(unsigned)
+		.sign(passphrase ? { key: privateKey[0], passphrase } : privateKey[0], 'base64');
+
+	return `${unsigned}.${toBase64Url(signature)}`;
+}
+
+// Helper function to read the expiry of a token response, which uses expires_in or expires_on depending on the endpoint
+function getExpiresOnTimestamp(response: IDataObject): number {
+	if (response.expires_on !== undefined) {
+		const expiresOn = Number(response.expires_on);
+		return isNaN(expiresOn) ? new Date(response.expires_on as string).getTime() : expiresOn * 1000;
+	}
+	return Date.now() + Number(response.expires_in ?? 3600) * 1000;
+}
+
+// Helper function to request an access token with client credentials (secret or certificate) or a managed identity
+export async function requestAccessToken(
+	request: TokenRequest,
+	authenticationType: string,
+	credentials: ICredentialDataDecryptedObject,
+): Promise<AccessToken> {
+	const scope = getScope(credentials);
+	let options: IHttpRequestOptions;
+
+	if (authenticationType === 'managedIdentity') {
+		const identityHeader = credentials.identityHeader as string | undefined;
+		const qs: IDataObject = {
+			// App Service, Functions and Container Apps endpoints expect the newer API version with their identity header
+			'api-version': identityHeader ? '2019-08-01' : '2018-02-01',
+			resource: scope.replace(/\/\.default$/, ''),
+		};
+		if (credentials.clientId) {
+			qs.client_id = credentials.clientId;
+		}
+		options = {
+			method: 'GET',
+			url: (credentials.tokenUrl as string) || DEFAULT_MANAGED_IDENTITY_ENDPOINT,
+			qs,
+			headers: identityHeader ? { 'X-IDENTITY-HEADER': identityHeader } : { Metadata: 'true' },
+			json: true,
+		};
+	} else {
+		const tokenEndpoint = getTenantTokenEndpoint(credentials);
+		const body: IDataObject = {
+			grant_type: 'client_credentials',
+			client_id: credentials.clientId,
+			scope,
+		};
+		if (authenticationType === 'clientCertificate') {
+			body.client_assertion_type = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+			body.client_assertion = createClientAssertion(
+				credentials.certificate as string,
+				(credentials.passphrase as string) || undefined,
+				credentials.clientId as string,
+				tokenEndpoint,
+			);
+		} else {
+			body.client_secret = credentials.clientSecret;
+		}
+		options = {
+			method: 'POST',
+			url: tokenEndpoint,
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+			body: Object.entries(body)
+				.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+				.join('&'),
+			json: true,
+		};
+	}
+
+	const response = await request(options);
+	if (!response?.access_token) {
+		throw new Error('The token endpoint did not return an access token');
+	}
+
+	return {
+		token: response.access_token as string,
+		expiresOnTimestamp: getExpiresOnTimestamp(response),
+	};
+}
+
+/**
+ * Creates a TokenCredential for CosmosClient that requests tokens from the credential's token endpoint.
+ *
+ * Tokens are cached until shortly before they expire, and concurrent requests share one
+ * token request. `getRequest` is called for every token request so a cached client always
+ * uses the request helper of the current execution.
+ */
+export function createTokenCredential(
+	getRequest: () => TokenRequest,
+	authenticationType: string,
+	credentials: ICredentialDataDecryptedObject,
+): TokenCredential {
+	let cached: AccessToken | undefined;
+	let pending: Promise<AccessToken> | undefined;
+
+	return {
+		async getToken() {
+			if (cached && cached.expiresOnTimestamp - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+				return cached;
+			}
+			pending ??= requestAccessToken(getRequest(), authenticationType, credentials)
+				.then((token) => (cached = token))
+				.finally(() => (pending = undefined));
+			return await pending;
+		},
+	};
+}
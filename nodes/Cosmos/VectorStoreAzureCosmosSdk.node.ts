@@ -0,0 +1,580 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeProperties,
+	INodeType,
+	INodeTypeDescription,
+	ISupplyDataFunctions,
+	SupplyData,
+} from 'n8n-workflow';
+import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+import type { DocumentInterface } from '@langchain/core/documents';
+import type { EmbeddingsInterface } from '@langchain/core/embeddings';
+import { DynamicTool } from '@langchain/core/tools';
+import { CosmosVectorStore } from './CosmosVectorStore';
+import {
+	authenticationTypeProperty,
+	cosmosCredentials,
+	getCosmosClient,
+	readContainerDefinition,
+	searchContainers,
+	searchDatabases,
+	usesReadOnlyKey,
+} from './GenericFunctions';
+
+// Document loaders supply either ready-made documents or a loader that splits each input item
+type DocumentInput = DocumentInterface[] | { processItem(item: INodeExecutionData, itemIndex: number): Promise<DocumentInterface[]> };
+
+// Field paths shared by every mode, so inserted and searched documents agree
+const documentPathOptions: INodeProperties[] = [
+	{
+		displayName: 'Metadata Field',
+		name: 'metadataPath',
+		type: 'string',
+		default: '/metadata',
+		description: 'Path of the field holding the document metadata',
+	},
+	{
+		displayName: 'Text Field',
+		name: 'textPath',
+		type: 'string',
+		default: '/text',
+		description: 'Path of the field holding the document text',
+	},
+	{
+		displayName: 'Vector Field',
+		name: 'vectorPath',
+		type: 'string',
+		default: '',
+		placeholder: '/vector',
+		description: "Path of the embedding field. Leave empty to use the path from the container's vector embedding policy.",
+	},
+];
+
+// Helper function to create the vector store for the configured container
+async function getVectorStore(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	embeddings: EmbeddingsInterface,
+	itemIndex: number,
+): Promise<CosmosVectorStore> {
+	const authenticationType = context.getNodeParameter('authenticationType', itemIndex) as string;
+	const databaseName = context.getNodeParameter('databaseName', itemIndex, '', { extractValue: true }) as string;
+	const containerName = context.getNodeParameter('containerName', itemIndex, '', { extractValue: true }) as string;
+	const options = context.getNodeParameter('options', itemIndex, {}) as {
+		filter?: string;
+		metadataPath?: string;
+		partitionKeyValue?: string;
+		textPath?: string;
+		vectorPath?: string;
+	};
+
+	const client = await getCosmosClient(context, authenticationType);
+	const container = client.database(databaseName).container(containerName);
+
+	// The container definition provides the partition key and default vector path
+	const { definition } = await readContainerDefinition(client, databaseName, containerName);
+	const containerDef = definition as {
+		id?: string;
+		partitionKey?: { paths?: string[] };
+		vectorEmbeddingPolicy?: { vectorEmbeddings?: Array<{ path?: string }> };
+	};
+	if (!containerDef.id) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Container '${containerName}' not found in database '${databaseName}'`,
+			{ itemIndex },
+		);
+	}
+
+	return new CosmosVectorStore(embeddings, {
+		node: context.getNode(),
+		container,
+		partitionKeyPaths: containerDef.partitionKey?.paths?.length ? containerDef.partitionKey.paths : ['/id'],
+		vectorPath:
+			options.vectorPath || containerDef.vectorEmbeddingPolicy?.vectorEmbeddings?.[0]?.path || '/vector',
+		textPath: options.textPath || '/text',
+		metadataPath: options.metadataPath || '/metadata',
+		partitionKeyValue: options.partitionKeyValue,
+		filter: options.filter,
+	});
+}
+
+// Helper function to read the Metadata Filter collection as a field-to-value map
+function getMetadataFilter(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	itemIndex: number,
+): Record<string, unknown> | undefined {
+	const options = context.getNodeParameter('options', itemIndex, {}) as {
+		metadata?: { metadataValues?: Array<{ name: string; type?: string; value: string }> };
+	};
+	const metadataValues = options.metadata?.metadataValues ?? [];
+	if (metadataValues.length === 0) {
+		return undefined;
+	}
+
+	// Cosmos DB compares values by type, so "3" never matches 3
+	return Object.fromEntries(
+		metadataValues.map(({ name, type = 'string', value }) => {
+			if (type === 'number') {
+				const number = Number(value);
+				if (value.trim() === '' || isNaN(number)) {
+					throw new NodeOperationError(
+						context.getNode(),
+						`Metadata Filter value for '${name}' must be a number, got '${value}'`,
+						{ itemIndex },
+					);
+				}
+				return [name, number];
+			}
+			if (type === 'boolean') {
+				const normalized = String(value).trim().toLowerCase();
+				if (normalized !== 'true' && normalized !== 'false') {
+					throw new NodeOperationError(
+						context.getNode(),
+						`Metadata Filter value for '${name}' must be true or false, got '${value}'`,
+						{ itemIndex },
+					);
+				}
+				return [name, normalized === 'true'];
+			}
+			return [name, value];
+		}),
+	);
+}
+
+// Helper function to run a similarity search and shape the results like n8n's vector store nodes
+async function searchDocuments(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	vectorStore: CosmosVectorStore,
+	embeddings: EmbeddingsInterface,
+	query: string,
+	itemIndex: number,
+): Promise<IDataObject[]> {
+	const topK = context.getNodeParameter('topK', itemIndex, 4) as number;
+	const includeDocumentMetadata = context.getNodeParameter('includeDocumentMetadata', itemIndex, true) as boolean;
+
+	const embeddedQuery = await embeddings.embedQuery(query);
+	const results = await vectorStore.similaritySearchVectorWithScore(
+		embeddedQuery,
+		topK,
+		getMetadataFilter(context, itemIndex),
+	);
+
+	return results.map(([document, score]) => ({
+		document: {
+			pageContent: document.pageContent,
+			...(includeDocumentMetadata ? { metadata: document.metadata as IDataObject } : {}),
+		},
+		score,
+	}));
+}
+
+export class VectorStoreAzureCosmosSdk implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Azure Cosmos DB (SDK) Vector Store',
+		name: 'vectorStoreAzureCosmosSdk',
+		icon: { light: 'file:cosmos.svg', dark: 'file:cosmos.dark.svg' },
+		group: ['transform'],
+		version: 1,
+		description: 'Store and search embeddings in an Azure Cosmos DB for NoSQL container',
+		subtitle: '={{$parameter["containerName"].value}}',
+		usableAsTool: true,
+		defaults: {
+			name: 'Azure Cosmos DB (SDK) Vector Store',
+		},
+		codex: {
+			categories: ['AI'],
+			subcategories: {
+				AI: ['Vector Stores', 'Tools', 'Root Nodes'],
+				Tools: ['Other Tools'],
+			},
+		},
+		inputs: `={{
+			((parameters) => {
+				const mode = parameters?.mode;
+				const inputs = [{ displayName: "Embedding", type: "${NodeConnectionTypes.AiEmbedding}", required: true, maxConnections: 1 }];
+				if (mode === 'insert' || mode === 'load') {
+					inputs.unshift({ displayName: "", type: "${NodeConnectionTypes.Main}" });
+				}
+				if (mode === 'insert') {
+					inputs.push({ displayName: "Document", type: "${NodeConnectionTypes.AiDocument}", required: true, maxConnections: 1 });
+				}
+				return inputs;
+			})($parameter)
+		}}`,
+		outputs: `={{
+			((parameters) => {
+				const mode = parameters?.mode;
+				if (mode === 'retrieve') {
+					return [{ displayName: "Vector Store", type: "${NodeConnectionTypes.AiVectorStore}" }];
+				}
+				if (mode === 'retrieve-as-tool') {
+					return [{ displayName: "Tool", type: "${NodeConnectionTypes.AiTool}" }];
+				}
+				return [{ displayName: "", type: "${NodeConnectionTypes.Main}" }];
+			})($parameter)
+		}}`,
+		credentials: cosmosCredentials,
+		properties: [
+			{
+				displayName: 'Operation Mode',
+				name: 'mode',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Get Many',
+						value: 'load',
+						description: 'Get many ranked documents from the vector store for a query',
+						action: 'Get ranked documents from vector store',
+					},
+					{
+						name: 'Insert Documents',
+						value: 'insert',
+						description: 'Insert documents into the vector store',
+						action: 'Add documents to vector store',
+					},
+					{
+						name: 'Retrieve Documents (As Vector Store for Chain/Tool)',
+						value: 'retrieve',
+						description: 'Retrieve documents from the vector store to be used as vector store with AI nodes',
+						action: 'Retrieve documents for chain or tool as vector store',
+					},
+					{
+						name: 'Retrieve Documents (As Tool for AI Agent)',
+						value: 'retrieve-as-tool',
+						description: 'Retrieve documents from the vector store to be used as tool with AI nodes',
+						action: 'Retrieve documents for AI agent as tool',
+					},
+				],
+				default: 'retrieve',
+			},
+			{
+				displayName: 'Name',
+				name: 'toolName',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'company_knowledge_base',
+				description: 'Name of the vector store tool',
+				displayOptions: {
+					show: {
+						mode: ['retrieve-as-tool'],
+					},
+				},
+			},
+			{
+				displayName: 'Description',
+				name: 'toolDescription',
+				type: 'string',
+				default: '',
+				required: true,
+				typeOptions: {
+					rows: 2,
+				},
+				placeholder: 'Search the company knowledge base for policies and procedures',
+				description: 'Explain to the LLM what this tool does. A good, specific description helps the agent decide when to use it.',
+				displayOptions: {
+					show: {
+						mode: ['retrieve-as-tool'],
+					},
+				},
+			},
+			authenticationTypeProperty,
+			{
+				displayName: 'Database',
+				name: 'databaseName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The database containing the vector container',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a database...',
+						typeOptions: {
+							searchListMethod: 'getDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-database',
+					},
+				],
+			},
+			{
+				displayName: 'Container',
+				name: 'containerName',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				description: 'The container holding the documents and their embeddings',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select a container...',
+						typeOptions: {
+							searchListMethod: 'getContainers',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'my-container',
+					},
+				],
+			},
+			{
+				displayName: 'Prompt',
+				name: 'prompt',
+				type: 'string',
+				default: '',
+				required: true,
+				description: 'Search prompt to retrieve matching documents from the vector store using similarity-based ranking',
+				displayOptions: {
+					show: {
+						mode: ['load'],
+					},
+				},
+			},
+			{
+				displayName: 'Limit',
+				name: 'topK',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 4,
+				description: 'Number of top results to fetch from vector store',
+				displayOptions: {
+					show: {
+						mode: ['load', 'retrieve-as-tool'],
+					},
+				},
+			},
+			{
+				displayName: 'Include Metadata',
+				name: 'includeDocumentMetadata',
+				type: 'boolean',
+				default: true,
+				description: 'Whether or not to include document metadata',
+				displayOptions: {
+					show: {
+						mode: ['load', 'retrieve-as-tool'],
+					},
+				},
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						mode: ['insert'],
+					},
+				},
+				options: [
+					documentPathOptions[0],
+					{
+						displayName: 'Partition Key Value',
+						name: 'partitionKeyValue',
+						type: 'string',
+						default: '',
+						description: 'Partition key value for inserted documents. For a hierarchical partition key, enter a JSON array with one value per path. Leave empty to take it from the document metadata field with the same name as the partition key.',
+					},
+					documentPathOptions[1],
+					documentPathOptions[2],
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						mode: ['load', 'retrieve', 'retrieve-as-tool'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Filter',
+						name: 'filter',
+						type: 'string',
+						default: '',
+						placeholder: 'c.category = "manuals"',
+						description: 'Condition, without the WHERE keyword, that searched documents must match',
+					},
+					{
+						displayName: 'Metadata Filter',
+						name: 'metadata',
+						type: 'fixedCollection',
+						description: 'Metadata fields the documents must have the given values for',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						placeholder: 'Add filter field',
+						options: [
+							{
+								name: 'metadataValues',
+								displayName: 'Fields to Set',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										required: true,
+									},
+									{
+										displayName: 'Type',
+										name: 'type',
+										type: 'options',
+										options: [
+											{ name: 'Boolean', value: 'boolean' },
+											{ name: 'Number', value: 'number' },
+											{ name: 'String', value: 'string' },
+										],
+										default: 'string',
+										description: 'The type the metadata field is stored as',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+									},
+								],
+							},
+						],
+					},
+					...documentPathOptions,
+				],
+			},
+		],
+	};
+
+	methods = {
+		listSearch: {
+			getDatabases: searchDatabases,
+			getContainers: searchContainers,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const mode = this.getNodeParameter('mode', 0) as string;
+		const embeddings = (await this.getInputConnectionData(NodeConnectionTypes.AiEmbedding, 0)) as EmbeddingsInterface;
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		if (mode === 'insert') {
+			if (await usesReadOnlyKey(this, this.getNodeParameter('authenticationType', 0) as string)) {
+				throw new NodeOperationError(
+					this.getNode(),
+					'Inserting documents needs a credential with a read-write key',
+				);
+			}
+
+			const documentInput = (await this.getInputConnectionData(NodeConnectionTypes.AiDocument, 0)) as DocumentInput;
+			const vectorStore = await getVectorStore(this, embeddings, 0);
+
+			// Ready-made documents don't depend on the input items, so they are inserted once
+			if (Array.isArray(documentInput)) {
+				await vectorStore.addDocuments(documentInput);
+
+				for (const document of documentInput) {
+					returnData.push({
+						json: {
+							metadata: document.metadata as IDataObject,
+							pageContent: document.pageContent,
+						},
+						pairedItem: items.map((_, itemIndex) => ({ item: itemIndex })),
+					});
+				}
+
+				return [returnData];
+			}
+
+			for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+				const documents = await documentInput.processItem(items[itemIndex], itemIndex);
+
+				await vectorStore.addDocuments(documents);
+
+				for (const document of documents) {
+					returnData.push({
+						json: {
+							metadata: document.metadata as IDataObject,
+							pageContent: document.pageContent,
+						},
+						pairedItem: itemIndex,
+					});
+				}
+			}
+
+			return [returnData];
+		}
+
+		if (mode === 'load') {
+			for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+				const vectorStore = await getVectorStore(this, embeddings, itemIndex);
+				const prompt = this.getNodeParameter('prompt', itemIndex) as string;
+				const results = await searchDocuments(this, vectorStore, embeddings, prompt, itemIndex);
+
+				for (const result of results) {
+					returnData.push({
+						json: result,
+						pairedItem: itemIndex,
+					});
+				}
+			}
+
+			return [returnData];
+		}
+
+		throw new NodeOperationError(
+			this.getNode(),
+			'Only the "Insert Documents" and "Get Many" modes can run on their own. Connect the other modes to an AI node.',
+		);
+	}
+
+	async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+		const mode = this.getNodeParameter('mode', 0) as string;
+		const embeddings = (await this.getInputConnectionData(NodeConnectionTypes.AiEmbedding, 0)) as EmbeddingsInterface;
+		const vectorStore = await getVectorStore(this, embeddings, itemIndex);
+
+		if (mode === 'retrieve') {
+			return { response: vectorStore };
+		}
+
+		if (mode === 'retrieve-as-tool') {
+			const tool = new DynamicTool({
+				name: this.getNodeParameter('toolName', itemIndex) as string,
+				description: this.getNodeParameter('toolDescription', itemIndex) as string,
+				func: async (input: string) => {
+					const results = await searchDocuments(this, vectorStore, embeddings, input, itemIndex);
+					return JSON.stringify(results);
+				},
+			});
+			return { response: tool };
+		}
+
+		throw new NodeOperationError(
+			this.getNode(),
+			'Only the "Retrieve Documents" modes can be connected to an AI node',
+		);
+	}
+}
@@ -6,6 +6,7 @@ declare module 'crypto' {
 			digest(encoding: string): string;
 		};
 	};
+	export function randomUUID(): string;
 }
 
 declare const Buffer: {
@@ -24,6 +25,60 @@ declare function fetch(
 declare function encodeURIComponent(str: string): string;
 
 declare module '@azure/cosmos' {
+	export type JSONValue = boolean | number | string | null | JSONValue[] | { [key: string]: JSONValue };
+
+	export interface SqlParameter {
+		name: string;
+		value: JSONValue;
+	}
+
+	export interface SqlQuerySpec {
+		query: string;
+		parameters?: SqlParameter[];
+	}
+
+	export interface RequestOptions {
+		accessCondition?: {
+			type: string;
+			condition: string;
+		};
+		preTriggerInclude?: string | string[];
+		postTriggerInclude?: string | string[];
+		consistencyLevel?: string;
+		sessionToken?: string;
+		indexingDirective?: string;
+		priorityLevel?: string;
+		maxIntegratedCacheStalenessInMs?: number;
+		populateQuotaInfo?: boolean;
+	}
+
+	export interface OperationInput {
+		operationType: 'Create' | 'Upsert' | 'Read' | 'Delete' | 'Replace' | 'Patch';
+		id?: string;
+		partitionKey?: JSONValue;
+		resourceBody?: { [key: string]: JSONValue };
+		ifMatch?: string;
+		ifNoneMatch?: string;
+	}
+
+	export interface BulkOperationResult {
+		operationInput: OperationInput;
+		response?: {
+			statusCode: number;
+			requestCharge: number;
+			activityId?: string;
+			eTag?: string;
+			resourceBody?: { [key: string]: JSONValue };
+		};
+		error?: Error & { code?: number };
+	}
+
+	export interface PatchOperation {
+		op: string;
+		path: string;
+		value?: JSONValue;
+	}
+
 	export interface TokenCredential {
 		getToken(): Promise<{
 			token: string;
@@ -31,12 +86,46 @@ declare module '@azure/cosmos' {
 		}>;
 	}
 
+	export enum ChangeFeedMode {
+		LatestVersion = 'Incremental Feed',
+		AllVersionsAndDeletes = 'Full-Fidelity Feed',
+	}
+
+	export class ChangeFeedStartFrom {
+		static Beginning(): ChangeFeedStartFrom;
+		static Now(): ChangeFeedStartFrom;
+		static Time(startTime: Date): ChangeFeedStartFrom;
+		static Continuation(continuationToken: string): ChangeFeedStartFrom;
+	}
+
+	export interface ChangeFeedIteratorOptions {
+		maxItemCount?: number;
+		changeFeedStartFrom?: ChangeFeedStartFrom;
+		changeFeedMode?: ChangeFeedMode;
+	}
+
 	export class CosmosClient {
 		constructor(options: {
 			endpoint: string;
 			key?: string;
 			aadCredentials?: TokenCredential;
+			agent?: unknown;
+			connectionPolicy?: {
+				preferredLocations?: string[];
+				enableEndpointDiscovery?: boolean;
+				useMultipleWriteLocations?: boolean;
+				requestTimeout?: number;
+			};
 		});
+		readonly databases: any;
 		database(id: string): any;
+		offer(id: string): any;
+		getDatabaseAccount(): Promise<{
+			resource?: {
+				readableLocations: Array<{ name: string; databaseAccountEndpoint: string }>;
+				writableLocations: Array<{ name: string; databaseAccountEndpoint: string }>;
+			};
+		}>;
+		dispose(): void;
 	}
 }